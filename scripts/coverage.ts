@@ -19,13 +19,36 @@ const MAPPINGS = [
     type: "interface" as const,
   },
   { pw: "Locator", ep: "PlaywrightLocatorService", type: "interface" as const },
+  {
+    pw: "JSHandle",
+    ep: "PlaywrightJSHandleService",
+    type: "interface" as const,
+  },
+  {
+    pw: "ElementHandle",
+    ep: "PlaywrightElementHandleService",
+    type: "interface" as const,
+  },
   { pw: "Request", ep: "PlaywrightRequest", type: "class" as const },
   { pw: "Response", ep: "PlaywrightResponse", type: "class" as const },
+  { pw: "Route", ep: "PlaywrightRoute", type: "class" as const },
   { pw: "Worker", ep: "PlaywrightWorker", type: "class" as const },
+  { pw: "WebSocket", ep: "PlaywrightWebSocket", type: "class" as const },
+  {
+    pw: "WebSocketRoute",
+    ep: "PlaywrightWebSocketRoute",
+    type: "class" as const,
+  },
   { pw: "Dialog", ep: "PlaywrightDialog", type: "class" as const },
   { pw: "FileChooser", ep: "PlaywrightFileChooser", type: "class" as const },
   { pw: "Download", ep: "PlaywrightDownload", type: "class" as const },
   { pw: "Clock", ep: "PlaywrightClockService", type: "interface" as const },
+  {
+    pw: "APIRequestContext",
+    ep: "PlaywrightAPIRequestService",
+    type: "interface" as const,
+  },
+  { pw: "APIResponse", ep: "PlaywrightAPIResponse", type: "class" as const },
 ];
 
 const EXCLUDED_METHODS = new Set([
@@ -0,0 +1,131 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { assert, layer } from "@effect/vitest";
+import { Effect, Layer, Schema } from "effect";
+import { Playwright } from "effect-playwright";
+import { chromium } from "playwright-core";
+import { PlaywrightBrowser } from "./browser";
+import { PlaywrightEnvironment } from "./experimental";
+
+const echoServer = Effect.acquireRelease(
+  Effect.async<{ url: string; close: () => void }>((resume) => {
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => {
+        body += chunk;
+      });
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Set-Cookie", "seeded=yes");
+        res.end(JSON.stringify({ method: req.method, url: req.url, body }));
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resume(
+        Effect.succeed({
+          url: `http://127.0.0.1:${port}`,
+          close: () => server.close(),
+        }),
+      );
+    });
+  }),
+  (server) => Effect.sync(() => server.close()),
+);
+
+layer(Layer.merge(Playwright.layer, PlaywrightEnvironment.layer(chromium)))(
+  "PlaywrightAPIRequest",
+  (it) => {
+    it.scoped("newRequestContextScoped should send requests", () =>
+      Effect.gen(function* () {
+        const server = yield* echoServer;
+        const playwright = yield* Playwright;
+        const request = yield* playwright.newRequestContextScoped({
+          baseURL: server.url,
+        });
+
+        const getResponse = yield* request.get("/users");
+        assert.isTrue(getResponse.ok());
+        assert.strictEqual(getResponse.status(), 200);
+        assert.deepStrictEqual(yield* getResponse.json, {
+          method: "GET",
+          url: "/users",
+          body: "",
+        });
+
+        const postResponse = yield* request.post("/seed", {
+          data: { users: 3 },
+        });
+        const posted = JSON.parse(yield* postResponse.text);
+        assert.strictEqual(posted.method, "POST");
+        assert.deepStrictEqual(JSON.parse(posted.body), { users: 3 });
+
+        const state = yield* request.storageState();
+        assert.isTrue(state.cookies.some((c) => c.name === "seeded"));
+      }),
+    );
+
+    it.scoped("jsonSchema should decode the response body", () =>
+      Effect.gen(function* () {
+        const server = yield* echoServer;
+        const playwright = yield* Playwright;
+        const request = yield* playwright.newRequestContextScoped({
+          baseURL: server.url,
+        });
+
+        const response = yield* request.get("/decode");
+        const decoded = yield* response.jsonSchema(
+          Schema.Struct({ method: Schema.Literal("GET"), url: Schema.String }),
+        );
+        assert.deepStrictEqual(decoded, { method: "GET", url: "/decode" });
+
+        const error = yield* response
+          .jsonSchema(Schema.Struct({ method: Schema.Number }))
+          .pipe(Effect.flip);
+        assert.strictEqual(error._tag, "ResponseDecodeError");
+        if (error._tag === "ResponseDecodeError") {
+          assert.strictEqual(error.url, `${server.url}/decode`);
+          assert.strictEqual(error.status, 200);
+        }
+      }),
+    );
+
+    it.scoped("page.request should share cookies with the context", () =>
+      Effect.gen(function* () {
+        const server = yield* echoServer;
+        const browser = yield* PlaywrightBrowser;
+        const context = yield* browser.newContext();
+        const page = yield* context.newPage;
+
+        const response = yield* page.request.delete(`${server.url}/items/1`);
+        assert.strictEqual((yield* response.json).method, "DELETE");
+
+        const cookies = yield* context.cookies(server.url);
+        assert.isTrue(cookies.some((c) => c.name === "seeded"));
+      }).pipe(PlaywrightEnvironment.withBrowser),
+    );
+
+    it.scoped("route.fetch should allow modifying the response", () =>
+      Effect.gen(function* () {
+        const server = yield* echoServer;
+        const browser = yield* PlaywrightBrowser;
+        const page = yield* browser.newPage();
+
+        yield* page.route(`${server.url}/page`, (route) =>
+          Effect.gen(function* () {
+            const response = yield* route.fetch();
+            const json = yield* response.json;
+            yield* route.fulfill({
+              response,
+              contentType: "text/html",
+              body: `<title>${json.method}</title>`,
+            });
+          }),
+        );
+
+        yield* page.goto(`${server.url}/page`);
+        assert.strictEqual(yield* page.title, "GET");
+      }).pipe(PlaywrightEnvironment.withBrowser),
+    );
+  },
+);
@@ -0,0 +1,192 @@
+import { Context, type Effect } from "effect";
+import type { APIRequestContext } from "playwright-core";
+import { PlaywrightAPIResponse } from "./common";
+import type { PlaywrightError } from "./errors";
+import { useHelper } from "./utils";
+
+/**
+ * @category model
+ * @since 0.7.0
+ */
+export interface PlaywrightAPIRequestService {
+  /**
+   * Sends an HTTP(S) DELETE request.
+   *
+   * @see {@link APIRequestContext.delete}
+   * @since 0.7.0
+   */
+  readonly delete: (
+    url: string,
+    options?: Parameters<APIRequestContext["delete"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Discards all responses returned by this context. Any further requests fail.
+   *
+   * @see {@link APIRequestContext.dispose}
+   * @since 0.7.0
+   */
+  readonly dispose: (
+    options?: Parameters<APIRequestContext["dispose"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Sends an HTTP(S) request. The method defaults to `GET` and can be changed with `options.method`.
+   *
+   * @example
+   * ```ts
+   * const response = yield* request.fetch("https://example.com/api/users", {
+   *   method: "POST",
+   *   data: { name: "Jane" },
+   * });
+   * ```
+   *
+   * @see {@link APIRequestContext.fetch}
+   * @since 0.7.0
+   */
+  readonly fetch: (
+    url: string,
+    options?: Parameters<APIRequestContext["fetch"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Sends an HTTP(S) GET request.
+   *
+   * @see {@link APIRequestContext.get}
+   * @since 0.7.0
+   */
+  readonly get: (
+    url: string,
+    options?: Parameters<APIRequestContext["get"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Sends an HTTP(S) HEAD request.
+   *
+   * @see {@link APIRequestContext.head}
+   * @since 0.7.0
+   */
+  readonly head: (
+    url: string,
+    options?: Parameters<APIRequestContext["head"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Sends an HTTP(S) PATCH request.
+   *
+   * @see {@link APIRequestContext.patch}
+   * @since 0.7.0
+   */
+  readonly patch: (
+    url: string,
+    options?: Parameters<APIRequestContext["patch"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Sends an HTTP(S) POST request.
+   *
+   * @example
+   * ```ts
+   * yield* request.post("https://example.com/api/seed", {
+   *   data: { users: 3 },
+   * });
+   * ```
+   *
+   * @see {@link APIRequestContext.post}
+   * @since 0.7.0
+   */
+  readonly post: (
+    url: string,
+    options?: Parameters<APIRequestContext["post"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Sends an HTTP(S) PUT request.
+   *
+   * @see {@link APIRequestContext.put}
+   * @since 0.7.0
+   */
+  readonly put: (
+    url: string,
+    options?: Parameters<APIRequestContext["put"]>[1],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Returns storage state for this request context, contains current cookies and local
+   * storage snapshot if it was passed to the constructor.
+   *
+   * @see {@link APIRequestContext.storageState}
+   * @since 0.7.0
+   */
+  readonly storageState: (
+    options?: Parameters<APIRequestContext["storageState"]>[0],
+  ) => Effect.Effect<
+    Awaited<ReturnType<APIRequestContext["storageState"]>>,
+    PlaywrightError
+  >;
+  /**
+   * A generic utility to execute any promise-based method on the underlying Playwright `APIRequestContext`.
+   *
+   * @see {@link APIRequestContext}
+   * @since 0.7.0
+   */
+  readonly use: <T>(
+    f: (request: APIRequestContext) => Promise<T>,
+  ) => Effect.Effect<T, PlaywrightError>;
+}
+
+/**
+ * @category tag
+ * @since 0.7.0
+ */
+export class PlaywrightAPIRequest extends Context.Tag(
+  "effect-playwright/PlaywrightAPIRequest",
+)<PlaywrightAPIRequest, PlaywrightAPIRequestService>() {
+  /**
+   * Creates a `PlaywrightAPIRequest` from a Playwright `APIRequestContext` instance.
+   *
+   * @category constructor
+   * @since 0.7.0
+   */
+  static make(request: APIRequestContext): PlaywrightAPIRequestService {
+    const use = useHelper(request, { name: "apiRequestContext" });
+
+    return PlaywrightAPIRequest.of({
+      delete: (url, options) =>
+        use((r) => r.delete(url, options).then(PlaywrightAPIResponse.make), {
+          method: "delete",
+          options,
+        }),
+      dispose: (options) =>
+        use((r) => r.dispose(options), { method: "dispose", options }),
+      fetch: (url, options) =>
+        use((r) => r.fetch(url, options).then(PlaywrightAPIResponse.make), {
+          method: "fetch",
+          options,
+        }),
+      get: (url, options) =>
+        use((r) => r.get(url, options).then(PlaywrightAPIResponse.make), {
+          method: "get",
+          options,
+        }),
+      head: (url, options) =>
+        use((r) => r.head(url, options).then(PlaywrightAPIResponse.make), {
+          method: "head",
+          options,
+        }),
+      patch: (url, options) =>
+        use((r) => r.patch(url, options).then(PlaywrightAPIResponse.make), {
+          method: "patch",
+          options,
+        }),
+      post: (url, options) =>
+        use((r) => r.post(url, options).then(PlaywrightAPIResponse.make), {
+          method: "post",
+          options,
+        }),
+      put: (url, options) =>
+        use((r) => r.put(url, options).then(PlaywrightAPIResponse.make), {
+          method: "put",
+          options,
+        }),
+      storageState: (options) =>
+        use((r) => r.storageState(options), {
+          method: "storageState",
+          options,
+        }),
+      use,
+    });
+  }
+}
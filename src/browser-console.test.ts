@@ -0,0 +1,76 @@
+import { assert, describe, it, layer } from "@effect/vitest";
+import { Effect, HashMap, Logger, LogLevel } from "effect";
+import { chromium } from "playwright-core";
+import { PlaywrightBrowser } from "./browser";
+import * as BrowserConsole from "./browser-console";
+import { PlaywrightEnvironment } from "./experimental";
+
+interface LogEntry {
+  readonly level: string;
+  readonly message: unknown;
+  readonly annotations: Record<string, unknown>;
+}
+
+const captureLogs = (entries: Array<LogEntry>) =>
+  Logger.replace(
+    Logger.defaultLogger,
+    Logger.make(({ logLevel, message, annotations }) => {
+      entries.push({
+        level: logLevel.label,
+        message: Array.isArray(message) ? message[0] : message,
+        annotations: Object.fromEntries(HashMap.toEntries(annotations)),
+      });
+    }),
+  );
+
+describe("BrowserConsole", () => {
+  it("logLevel should map console message types to log levels", () => {
+    assert.strictEqual(BrowserConsole.logLevel("error"), LogLevel.Error);
+    assert.strictEqual(BrowserConsole.logLevel("assert"), LogLevel.Error);
+    assert.strictEqual(BrowserConsole.logLevel("warning"), LogLevel.Warning);
+    assert.strictEqual(BrowserConsole.logLevel("debug"), LogLevel.Debug);
+    assert.strictEqual(BrowserConsole.logLevel("trace"), LogLevel.Trace);
+    assert.strictEqual(BrowserConsole.logLevel("log"), LogLevel.Info);
+    assert.strictEqual(BrowserConsole.logLevel("table"), LogLevel.Info);
+  });
+});
+
+layer(PlaywrightEnvironment.layer(chromium))("BrowserConsole.layer", (it) => {
+  it.scoped("should forward console messages to the logger", () => {
+    const entries: Array<LogEntry> = [];
+
+    return Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.goto("about:blank");
+      yield* page.evaluate(() => {
+        console.log("hello");
+        console.warn("careful");
+      });
+      yield* page.close;
+      // let the forwarding fiber drain the remaining messages
+      yield* Effect.repeatN(Effect.yieldNow(), 10);
+
+      assert.deepStrictEqual(
+        entries.map(({ level, message }) => [level, message]),
+        [
+          ["INFO", "hello"],
+          ["WARN", "careful"],
+        ],
+      );
+      assert.strictEqual(
+        entries[0].annotations["playwright.page.url"],
+        "about:blank",
+      );
+      assert.strictEqual(
+        entries[1].annotations["playwright.console.type"],
+        "warning",
+      );
+    }).pipe(
+      Effect.provide(BrowserConsole.layer),
+      PlaywrightEnvironment.withBrowser,
+      Effect.provide(captureLogs(entries)),
+    );
+  });
+});
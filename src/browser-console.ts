@@ -0,0 +1,129 @@
+import { Effect, Layer, LogLevel, Option, Stream } from "effect";
+import { PlaywrightBrowser } from "./browser";
+import type {
+  PlaywrightConsoleMessage,
+  PlaywrightConsoleMessageType,
+} from "./common";
+
+/**
+ * Returns the log level matching a browser console message type.
+ *
+ * `error` and `assert` map to `Error`, `warning` to `Warning`, `debug` to `Debug`,
+ * `trace` to `Trace` and everything else to `Info`.
+ *
+ * @category utils
+ * @since 0.7.0
+ */
+export const logLevel = (
+  type: PlaywrightConsoleMessageType,
+): LogLevel.LogLevel => {
+  switch (type) {
+    case "error":
+    case "assert":
+      return LogLevel.Error;
+    case "warning":
+      return LogLevel.Warning;
+    case "debug":
+      return LogLevel.Debug;
+    case "trace":
+      return LogLevel.Trace;
+    default:
+      return LogLevel.Info;
+  }
+};
+
+/**
+ * Logs a browser console message with the current Effect `Logger`, at the level
+ * returned by {@link logLevel}.
+ *
+ * The log entry is annotated with the console message type, its source location and,
+ * if the message was produced by a page, the page URL.
+ *
+ * @example
+ * ```ts
+ * yield* page
+ *   .eventStream("console")
+ *   .pipe(Stream.runForEach(BrowserConsole.log), Effect.forkScoped);
+ * ```
+ *
+ * @category utils
+ * @since 0.7.0
+ */
+export const log = (message: PlaywrightConsoleMessage): Effect.Effect<void> => {
+  const { url, lineNumber, columnNumber } = message.location();
+  const pageUrl = Option.map(message.page(), (page) => page.url());
+  return Effect.logWithLevel(logLevel(message.type()), message.text()).pipe(
+    Effect.annotateLogs({
+      "playwright.console.type": message.type(),
+      "playwright.console.location": `${url}:${lineNumber}:${columnNumber}`,
+      ...(Option.isSome(pageUrl) && { "playwright.page.url": pageUrl.value }),
+    }),
+  );
+};
+
+const logAndDispose = (message: PlaywrightConsoleMessage) =>
+  log(message).pipe(Effect.zipRight(Effect.ignore(message.dispose)));
+
+/**
+ * Wraps the `PlaywrightBrowser` service so that console output of every browser context
+ * created with `newContext` and every page created with `newPage` is forwarded to the
+ * Effect `Logger` using {@link log}.
+ *
+ * Browser logs then end up in the same structured log pipeline as the rest of the
+ * program, and can be filtered with `Logger.withMinimumLogLevel`.
+ *
+ * The arguments of a message are disposed once it is logged, so that the browser can
+ * release them. Reading {@link PlaywrightConsoleMessage.args} fails afterwards.
+ *
+ * @example
+ * ```ts
+ * import { BrowserConsole, PlaywrightBrowser } from "effect-playwright";
+ * import { PlaywrightEnvironment } from "effect-playwright/experimental";
+ *
+ * const program = Effect.gen(function* () {
+ *   const browser = yield* PlaywrightBrowser;
+ *   const page = yield* browser.newPage();
+ *
+ *   // logged with level Warning and a `playwright.page.url` annotation
+ *   yield* page.evaluate(() => console.warn("careful"));
+ * }).pipe(
+ *   Effect.provide(BrowserConsole.layer),
+ *   PlaywrightEnvironment.withBrowser,
+ * );
+ * ```
+ *
+ * @category layer
+ * @since 0.7.0
+ */
+export const layer: Layer.Layer<PlaywrightBrowser, never, PlaywrightBrowser> =
+  Layer.scoped(
+    PlaywrightBrowser,
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const scope = yield* Effect.scope;
+      return PlaywrightBrowser.of({
+        ...browser,
+        newContext: (options) =>
+          browser
+            .newContext(options)
+            .pipe(
+              Effect.tap((context) =>
+                context
+                  .eventStream("console")
+                  .pipe(Stream.runForEach(logAndDispose), Effect.forkScoped),
+              ),
+            ),
+        // the stream ends when the page closes, or when the layer is released
+        newPage: (options) =>
+          browser
+            .newPage(options)
+            .pipe(
+              Effect.tap((page) =>
+                page
+                  .eventStream("console")
+                  .pipe(Stream.runForEach(logAndDispose), Effect.forkIn(scope)),
+              ),
+            ),
+      });
+    }),
+  );
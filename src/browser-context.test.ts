@@ -135,5 +135,82 @@ layer(PlaywrightEnvironment.layer(chromium))(
         assert.strictEqual(afterDelete.length, 0);
       }).pipe(PlaywrightEnvironment.withBrowser),
     );
+
+    it.scoped("route should intercept requests from all pages", () =>
+      Effect.gen(function* () {
+        const browser = yield* PlaywrightBrowser;
+        const context = yield* browser.newContext();
+
+        yield* context.route("http://route.test/", (route) =>
+          route.fulfill({
+            contentType: "text/html",
+            body: "<title>Context Route</title>",
+          }),
+        );
+
+        const page = yield* context.newPage;
+        yield* page.goto("http://route.test/");
+        assert.strictEqual(yield* page.title, "Context Route");
+
+        yield* context.unroute("http://route.test/");
+      }).pipe(PlaywrightEnvironment.withBrowser),
+    );
+
+    it.scoped("waitForRequest should match requests from any page", () =>
+      Effect.gen(function* () {
+        const browser = yield* PlaywrightBrowser;
+        const context = yield* browser.newContext();
+
+        yield* context.route(/wait\.test/, (route) =>
+          route.fulfill({ contentType: "text/html", body: "<p>ok</p>" }),
+        );
+        const page = yield* context.newPage;
+
+        const [request, response] = yield* Effect.all(
+          [
+            context.waitForRequest("http://wait.test/"),
+            context.waitForResponse(/wait\.test/),
+            page.goto("http://wait.test/"),
+          ],
+          { concurrency: "unbounded" },
+        );
+        assert.strictEqual(request.url(), "http://wait.test/");
+        assert.strictEqual(response.status(), 200);
+      }).pipe(PlaywrightEnvironment.withBrowser),
+    );
+
+    it.scoped("waitForRequest should match glob patterns", () =>
+      Effect.gen(function* () {
+        const browser = yield* PlaywrightBrowser;
+        const context = yield* browser.newContext();
+
+        yield* context.route(/wait\.test/, (route) =>
+          route.fulfill({ contentType: "text/html", body: "<p>ok</p>" }),
+        );
+        const page = yield* context.newPage;
+
+        const [request] = yield* Effect.all(
+          [
+            context.waitForRequest("**/orders/*.json"),
+            page.goto("http://wait.test/orders/7.json"),
+          ],
+          { concurrency: "unbounded" },
+        );
+        assert.strictEqual(request.url(), "http://wait.test/orders/7.json");
+      }).pipe(PlaywrightEnvironment.withBrowser),
+    );
+
+    it.scoped("waitForRequest should fail for an invalid glob pattern", () =>
+      Effect.gen(function* () {
+        const browser = yield* PlaywrightBrowser;
+        const context = yield* browser.newContext();
+
+        const error = yield* context
+          .waitForRequest("**/api/{a,b")
+          .pipe(Effect.flip);
+        assert.strictEqual(error._tag, "PlaywrightError");
+        assert.strictEqual(error.operation, "browserContext.waitForRequest");
+      }).pipe(PlaywrightEnvironment.withBrowser),
+    );
   },
 );
@@ -1,4 +1,4 @@
-import { Context, Effect, identity, Option, Stream } from "effect";
+import { Context, Effect, identity, Option, type Scope, Stream } from "effect";
 import type {
   BrowserContext,
   ConsoleMessage,
@@ -11,13 +11,21 @@ import type {
   WebError,
   Worker,
 } from "playwright-core";
+import {
+  PlaywrightAPIRequest,
+  type PlaywrightAPIRequestService,
+} from "./api-request";
 import { PlaywrightBrowser, type PlaywrightBrowserService } from "./browser";
 import { PlaywrightClock, type PlaywrightClockService } from "./clock";
 import {
+  type EventHubOptions,
+  PlaywrightConsoleMessage,
   PlaywrightDialog,
   PlaywrightDownload,
   PlaywrightRequest,
   PlaywrightResponse,
+  PlaywrightRoute,
+  PlaywrightWebSocketRoute,
   PlaywrightWorker,
 } from "./common";
 import {
@@ -26,10 +34,23 @@ import {
 } from "./credentials";
 import type { PlaywrightError } from "./errors";
 import { PlaywrightFrame } from "./frame";
+import type { RouteFromHAROptions } from "./har-replay";
 import { PlaywrightPage } from "./page";
-import type { PageFunction, PatchedEvents } from "./playwright-types";
+import type {
+  PageFunction,
+  PatchedEvents,
+  PatchedWaitForEvent,
+} from "./playwright-types";
 import { PlaywrightTracing, type PlaywrightTracingService } from "./tracing";
-import { useHelper } from "./utils";
+import {
+  makeEventHub,
+  matchesUrl,
+  routeHandler,
+  trackPage,
+  useHelper,
+  waitForWithPredicate,
+  webSocketRouteHandler,
+} from "./utils";
 
 interface BrowserContextEvents {
   /** @deprecated Since Playwright 1.56.0. This event is no longer emitted. */
@@ -55,7 +76,7 @@ interface BrowserContextEvents {
 const eventMappings = {
   backgroundpage: (page: Page) => PlaywrightPage.make(page),
   close: (context: BrowserContext) => PlaywrightBrowserContext.make(context),
-  console: identity<ConsoleMessage>,
+  console: (message: ConsoleMessage) => PlaywrightConsoleMessage.make(message),
   dialog: (dialog: Dialog) => PlaywrightDialog.make(dialog),
   download: (download: Download) => PlaywrightDownload.make(download),
   frameattached: (frame: Frame) => PlaywrightFrame.make(frame),
@@ -72,11 +93,18 @@ const eventMappings = {
   weberror: identity<WebError>,
 } as const;
 
-type BrowserContextWithPatchedEvents = PatchedEvents<
-  BrowserContext,
+type BrowserContextWithPatchedEvents = PatchedWaitForEvent<
+  PatchedEvents<BrowserContext, BrowserContextEvents>,
   BrowserContextEvents
 >;
 
+const mapEvent = <K extends keyof BrowserContextEvents>(
+  event: K,
+  value: BrowserContextEvents[K],
+) =>
+  // biome-ignore lint/suspicious/noExplicitAny: see eventStream
+  eventMappings[event](value as any) as ReturnType<(typeof eventMappings)[K]>;
+
 /**
  * @category model
  * @since 0.1.0
@@ -93,6 +121,15 @@ export interface PlaywrightBrowserContextService {
    * @since 0.5.1
    */
   readonly credentials: PlaywrightCredentialsService;
+
+  /**
+   * API testing helper associated with this context. Requests made with it use the
+   * cookies of the browser context and update them from the responses.
+   *
+   * @see {@link BrowserContext.request}
+   * @since 0.7.0
+   */
+  readonly request: PlaywrightAPIRequestService;
   /**
    * Access the tracing.
    *
@@ -149,6 +186,103 @@ export interface PlaywrightBrowserContextService {
     options?: Parameters<BrowserContext["addInitScript"]>[2],
   ) => Effect.Effect<void, PlaywrightError>;
 
+  /**
+   * Routing provides the capability to modify network requests that are made by any
+   * page in the browser context. Routes registered on a page take precedence over
+   * routes registered on its browser context.
+   *
+   * The provided handler must return an `Effect` which will be executed using the
+   * current runtime for every matching request. The route is registered for the
+   * lifetime of the current `Scope` and removed automatically when the scope closes.
+   *
+   * Failures of the handler are logged and the request falls back to the next
+   * matching route.
+   *
+   * @example
+   * ```ts
+   * yield* context.route(/\.(png|jpg)$/, (route) => route.abort());
+   * ```
+   *
+   * @see {@link BrowserContext.route}
+   * @since 0.7.0
+   */
+  readonly route: <A, E, R>(
+    url: Parameters<BrowserContext["route"]>[0],
+    handler: (route: PlaywrightRoute) => Effect.Effect<A, E, R>,
+    options?: Parameters<BrowserContext["route"]>[2],
+  ) => Effect.Effect<void, PlaywrightError, R | Scope.Scope>;
+
+  /**
+   * Removes all routes registered for the given url.
+   *
+   * @see {@link BrowserContext.unroute}
+   * @since 0.7.0
+   */
+  readonly unroute: (
+    url: Parameters<BrowserContext["unroute"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Removes all routes registered with {@link PlaywrightBrowserContextService.route}.
+   *
+   * @see {@link BrowserContext.unrouteAll}
+   * @since 0.7.0
+   */
+  readonly unrouteAll: (
+    options?: Parameters<BrowserContext["unrouteAll"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Allows to modify WebSocket connections made by the browser context.
+   *
+   * The provided handler must return an `Effect` which is forked using the current
+   * runtime for every matching WebSocket. The route is active for the lifetime of
+   * the current `Scope`: when the scope closes, running handlers are interrupted and
+   * WebSockets created afterwards are connected to the server as usual.
+   *
+   * Failures of the handler are logged.
+   *
+   * @example
+   * ```ts
+   * yield* context.routeWebSocket("wss://example.com/chat", (ws) =>
+   *   ws.messages.pipe(
+   *     Stream.runForEach((message) => ws.send(`echo: ${message}`)),
+   *   ),
+   * );
+   * ```
+   *
+   * @see {@link BrowserContext.routeWebSocket}
+   * @since 0.7.0
+   */
+  readonly routeWebSocket: <A, E, R>(
+    url: Parameters<BrowserContext["routeWebSocket"]>[0],
+    handler: (route: PlaywrightWebSocketRoute) => Effect.Effect<A, E, R>,
+  ) => Effect.Effect<void, PlaywrightError, R | Scope.Scope>;
+
+  /**
+   * Serves network requests made by the browser context from a HAR file. Requests that do not
+   * match an entry in the archive are handled according to `options.notFound`.
+   *
+   * When `options.update` is set, the HAR file is recorded from actual network traffic
+   * instead and written to disk when the browser context is closed.
+   *
+   * Unlike {@link PlaywrightBrowserContextService.route}, the HAR routes are not tied to the current
+   * `Scope`: Playwright cannot remove them individually, so they stay active for the
+   * lifetime of the browser context.
+   *
+   * @example
+   * ```ts
+   * yield* context.routeFromHAR("fixtures/api.har", { url: /\/api\// });
+   * ```
+   *
+   * @see {@link BrowserContext.routeFromHAR}
+   * @since 0.7.0
+   */
+  readonly routeFromHAR: (
+    har: string,
+    options?: RouteFromHAROptions,
+  ) => Effect.Effect<void, PlaywrightError>;
+
   /**
    * Returns the browser that the context belongs to.
    *
@@ -281,6 +415,113 @@ export interface PlaywrightBrowserContextService {
     options: Parameters<BrowserContext["setStorageState"]>[0],
   ) => Effect.Effect<void, PlaywrightError>;
 
+  /**
+   * Waits for the given event to be emitted by the browser context and returns its value,
+   * mapped like in {@link eventStream}.
+   *
+   * The optional predicate is an `Effect` that receives the mapped event. Fails with a
+   * `Timeout` {@link PlaywrightError} if the event is not emitted within `timeout`
+   * milliseconds (defaults to the browser context's default timeout).
+   *
+   * @example
+   * ```ts
+   * const [newPage] = yield* Effect.all(
+   *   [context.waitForEvent("page"), page.locator("a[target=_blank]").click()],
+   *   { concurrency: "unbounded" },
+   * );
+   * ```
+   *
+   * @category custom
+   * @see {@link BrowserContext.waitForEvent}
+   * @since 0.7.0
+   */
+  readonly waitForEvent: <
+    K extends keyof BrowserContextEvents,
+    E = never,
+    R = never,
+  >(
+    event: K,
+    options?: {
+      readonly predicate?: (
+        event: ReturnType<(typeof eventMappings)[K]>,
+      ) => Effect.Effect<boolean, E, R>;
+      readonly timeout?: number;
+    },
+  ) => Effect.Effect<
+    ReturnType<(typeof eventMappings)[K]>,
+    PlaywrightError | E,
+    R
+  >;
+
+  /**
+   * Waits for a matching request and returns it.
+   *
+   * The URL is matched like in {@link PlaywrightPageService.waitForRequest}, or by an
+   * `Effect` predicate that receives the wrapped request.
+   * Fails with a `Timeout` {@link PlaywrightError} if no matching request is seen within
+   * `timeout` milliseconds.
+   *
+   * @category custom
+   * @see {@link BrowserContext.waitForEvent}
+   * @since 0.7.0
+   */
+  readonly waitForRequest: <E = never, R = never>(
+    urlOrPredicate:
+      | string
+      | RegExp
+      | ((request: PlaywrightRequest) => Effect.Effect<boolean, E, R>),
+    options?: { readonly timeout?: number },
+  ) => Effect.Effect<PlaywrightRequest, PlaywrightError | E, R>;
+
+  /**
+   * Waits for a matching response and returns it.
+   *
+   * The URL is matched like in {@link PlaywrightPageService.waitForRequest}, or by an
+   * `Effect` predicate that receives the wrapped response.
+   * Fails with a `Timeout` {@link PlaywrightError} if no matching response is seen within
+   * `timeout` milliseconds.
+   *
+   * @category custom
+   * @see {@link BrowserContext.waitForEvent}
+   * @since 0.7.0
+   */
+  readonly waitForResponse: <E = never, R = never>(
+    urlOrPredicate:
+      | string
+      | RegExp
+      | ((response: PlaywrightResponse) => Effect.Effect<boolean, E, R>),
+    options?: { readonly timeout?: number },
+  ) => Effect.Effect<PlaywrightResponse, PlaywrightError | E, R>;
+
+  /**
+   * Starts buffering the given event from the browser context and returns a stream of it.
+   *
+   * Unlike {@link PlaywrightBrowserContextService.eventStream}, the listener is attached
+   * when this effect runs rather than when the stream runs, so events emitted in between
+   * are not lost. A single listener is shared by all runs of the returned stream, and each
+   * run first receives the buffered events (see {@link EventHubOptions}). The streams end
+   * when the browser context closes, and the listener is removed when the scope closes.
+   *
+   * @example
+   * ```ts
+   * const pages = yield* context.eventHub("page");
+   * yield* context.newPage;
+   * const page = yield* pages.pipe(Stream.runHead);
+   * ```
+   *
+   * @category custom
+   * @see {@link BrowserContext.on}
+   * @since 0.7.0
+   */
+  readonly eventHub: <K extends keyof typeof eventMappings>(
+    event: K,
+    options?: EventHubOptions,
+  ) => Effect.Effect<
+    Stream.Stream<ReturnType<(typeof eventMappings)[K]>>,
+    never,
+    Scope.Scope
+  >;
+
   /**
    * Creates a stream of the given event from the browser context.
    *
@@ -313,14 +554,18 @@ export class PlaywrightBrowserContext extends Context.Tag(
   static make(
     context: BrowserContextWithPatchedEvents,
   ): PlaywrightBrowserContextService {
-    const use = useHelper(context);
+    const use = useHelper(context, { name: "browserContext" });
     return PlaywrightBrowserContext.of({
       clock: PlaywrightClock.make(context.clock),
       credentials: PlaywrightCredentials.make(context.credentials),
+      request: PlaywrightAPIRequest.make(context.request),
       tracing: PlaywrightTracing.make(context.tracing),
       pages: () => context.pages().map(PlaywrightPage.make),
-      newPage: use((c) => c.newPage().then(PlaywrightPage.make)),
-      close: use((c) => c.close()),
+      newPage: use((c) => c.newPage(), { method: "newPage" }).pipe(
+        Effect.tap(trackPage),
+        Effect.map(PlaywrightPage.make),
+      ),
+      close: use((c) => c.close(), { method: "close" }),
       isClosed: () => context.isClosed(),
       addInitScript: <Arg>(
         script:
@@ -329,33 +574,180 @@ export class PlaywrightBrowserContext extends Context.Tag(
         arg?: Arg,
         options?: Parameters<BrowserContext["addInitScript"]>[2],
       ) =>
-        use((c) =>
-          c.addInitScript<Arg>(
-            script as unknown as Parameters<typeof c.addInitScript<Arg>>[0],
-            arg,
-            options,
-          ),
+        use(
+          (c) =>
+            c.addInitScript<Arg>(
+              script as unknown as Parameters<typeof c.addInitScript<Arg>>[0],
+              arg,
+              options,
+            ),
+          { method: "addInitScript", options },
         ).pipe(Effect.asVoid),
+      route: <A, E, R>(
+        url: Parameters<BrowserContext["route"]>[0],
+        handler: (route: PlaywrightRoute) => Effect.Effect<A, E, R>,
+        options?: Parameters<BrowserContext["route"]>[2],
+      ) =>
+        Effect.runtime<R>().pipe(
+          Effect.flatMap((runtime) => {
+            const onRoute = routeHandler(runtime, (route) =>
+              handler(PlaywrightRoute.make(route)),
+            );
+            return Effect.acquireRelease(
+              use((c) => c.route(url, onRoute, options), {
+                method: "route",
+                options,
+              }),
+              () =>
+                use((c) => c.unroute(url, onRoute), {
+                  method: "unroute",
+                }).pipe(Effect.ignore),
+            );
+          }),
+        ),
+      unroute: (url) => use((c) => c.unroute(url), { method: "unroute" }),
+      unrouteAll: (options) =>
+        use((c) => c.unrouteAll(options), { method: "unrouteAll", options }),
+      routeWebSocket: <A, E, R>(
+        url: Parameters<BrowserContext["routeWebSocket"]>[0],
+        handler: (route: PlaywrightWebSocketRoute) => Effect.Effect<A, E, R>,
+      ) =>
+        webSocketRouteHandler((route) =>
+          handler(PlaywrightWebSocketRoute.make(route)),
+        ).pipe(
+          Effect.flatMap((onRoute) =>
+            use((c) => c.routeWebSocket(url, onRoute), {
+              method: "routeWebSocket",
+            }),
+          ),
+        ),
+      routeFromHAR: (har, options) =>
+        use((c) => c.routeFromHAR(har, options), {
+          method: "routeFromHAR",
+          options,
+        }),
       browser: () =>
         Option.fromNullable(context.browser()).pipe(
           Option.map(PlaywrightBrowser.make),
         ),
-      clearCookies: (options) => use((c) => c.clearCookies(options)),
-      clearPermissions: use((c) => c.clearPermissions()),
-      cookies: (urls) => use((c) => c.cookies(urls)),
-      addCookies: (cookies) => use((c) => c.addCookies(cookies)),
+      clearCookies: (options) =>
+        use((c) => c.clearCookies(options), {
+          method: "clearCookies",
+          options,
+        }),
+      clearPermissions: use((c) => c.clearPermissions(), {
+        method: "clearPermissions",
+      }),
+      cookies: (urls) => use((c) => c.cookies(urls), { method: "cookies" }),
+      addCookies: (cookies) =>
+        use((c) => c.addCookies(cookies), { method: "addCookies" }),
       grantPermissions: (permissions, options) =>
-        use((c) => c.grantPermissions(permissions, options)),
+        use((c) => c.grantPermissions(permissions, options), {
+          method: "grantPermissions",
+          options,
+        }),
       setExtraHTTPHeaders: (headers) =>
-        use((c) => c.setExtraHTTPHeaders(headers)),
+        use((c) => c.setExtraHTTPHeaders(headers), {
+          method: "setExtraHTTPHeaders",
+        }),
       setGeolocation: (geolocation) =>
-        use((c) => c.setGeolocation(geolocation)),
-      setOffline: (offline) => use((c) => c.setOffline(offline)),
+        use((c) => c.setGeolocation(geolocation), { method: "setGeolocation" }),
+      setOffline: (offline) =>
+        use((c) => c.setOffline(offline), { method: "setOffline" }),
       setDefaultNavigationTimeout: (timeout) =>
         context.setDefaultNavigationTimeout(timeout),
       setDefaultTimeout: (timeout) => context.setDefaultTimeout(timeout),
-      storageState: (options) => use((c) => c.storageState(options)),
-      setStorageState: (options) => use((c) => c.setStorageState(options)),
+      storageState: (options) =>
+        use((c) => c.storageState(options), {
+          method: "storageState",
+          options,
+        }),
+      setStorageState: (options) =>
+        use((c) => c.setStorageState(options), {
+          method: "setStorageState",
+          options,
+        }),
+      waitForEvent: (event, options) =>
+        waitForWithPredicate({
+          map: (raw: BrowserContextEvents[typeof event]) =>
+            mapEvent(event, raw),
+          predicate: options?.predicate,
+          wait: (predicate, signal) =>
+            use(
+              (c) =>
+                c.waitForEvent(event, {
+                  predicate,
+                  timeout: options?.timeout,
+                  signal,
+                }),
+              { method: "waitForEvent", options },
+            ),
+        }),
+      waitForRequest: (urlOrPredicate, options) =>
+        Effect.flatMap(
+          typeof urlOrPredicate === "function"
+            ? Effect.succeed(undefined)
+            : matchesUrl(urlOrPredicate, "browserContext.waitForRequest"),
+          (matches) =>
+            waitForWithPredicate({
+              map: PlaywrightRequest.make,
+              predicate:
+                typeof urlOrPredicate === "function"
+                  ? urlOrPredicate
+                  : undefined,
+              wait: (predicate, signal) =>
+                use(
+                  (c) =>
+                    c.waitForEvent("request", {
+                      predicate: predicate ?? matches,
+                      timeout: options?.timeout,
+                      signal,
+                    }),
+                  { method: "waitForEvent", options },
+                ),
+            }),
+        ),
+      waitForResponse: (urlOrPredicate, options) =>
+        Effect.flatMap(
+          typeof urlOrPredicate === "function"
+            ? Effect.succeed(undefined)
+            : matchesUrl(urlOrPredicate, "browserContext.waitForResponse"),
+          (matches) =>
+            waitForWithPredicate({
+              map: PlaywrightResponse.make,
+              predicate:
+                typeof urlOrPredicate === "function"
+                  ? urlOrPredicate
+                  : undefined,
+              wait: (predicate, signal) =>
+                use(
+                  (c) =>
+                    c.waitForEvent("response", {
+                      predicate: predicate ?? matches,
+                      timeout: options?.timeout,
+                      signal,
+                    }),
+                  { method: "waitForEvent", options },
+                ),
+            }),
+        ),
+      eventHub: <K extends keyof BrowserContextEvents>(
+        event: K,
+        options?: EventHubOptions,
+      ) =>
+        makeEventHub<ReturnType<(typeof eventMappings)[K]>>(
+          (onEvent, onEnd) => {
+            const onContextEvent = (value: BrowserContextEvents[K]) =>
+              onEvent(mapEvent(event, value));
+            context.on(event, onContextEvent);
+            context.once("close", onEnd);
+            return () => {
+              context.off(event, onContextEvent);
+              context.off("close", onEnd);
+            };
+          },
+          options,
+        ),
       eventStream: <K extends keyof BrowserContextEvents>(event: K) =>
         Stream.asyncPush<BrowserContextEvents[K]>((emit) =>
           Effect.acquireRelease(
@@ -10,7 +10,7 @@ import { PlaywrightBrowserContext } from "./browser-context";
 import type { PlaywrightError } from "./errors";
 import { PlaywrightPage } from "./page";
 import type { PatchedEvents } from "./playwright-types";
-import { useHelper } from "./utils";
+import { trackContext, useHelper } from "./utils";
 
 export type LaunchOptions = Parameters<typeof chromium.launch>[0];
 export type NewPageOptions = Parameters<Browser["newPage"]>[0];
@@ -147,25 +147,39 @@ export class PlaywrightBrowser extends Context.Tag(
    * @category constructor
    */
   static make(browser: BrowserWithPatchedEvents): PlaywrightBrowserService {
-    const use = useHelper(browser);
+    const use = useHelper(browser, { name: "browser" });
 
     return PlaywrightBrowser.of({
       newPage: (options) =>
-        use((browser) => browser.newPage(options).then(PlaywrightPage.make)),
-      close: use((browser) => browser.close()),
+        use((browser) => browser.newPage(options), {
+          method: "newPage",
+          options,
+        }).pipe(
+          Effect.tap((page) => trackContext(page.context())),
+          Effect.map(PlaywrightPage.make),
+        ),
+      close: use((browser) => browser.close(), { method: "close" }),
       contexts: () => browser.contexts().map(PlaywrightBrowserContext.make),
       newContext: (options) =>
         Effect.acquireRelease(
-          use((browser) =>
-            browser.newContext(options).then(PlaywrightBrowserContext.make),
+          use((browser) => browser.newContext(options), {
+            method: "newContext",
+            options,
+          }).pipe(
+            Effect.tap(trackContext),
+            Effect.map(PlaywrightBrowserContext.make),
           ),
           (context) => context.close.pipe(Effect.ignoreLogged),
         ),
       browserType: () => browser.browserType(),
       version: () => browser.version(),
       isConnected: () => browser.isConnected(),
-      bind: (title, options) => use((browser) => browser.bind(title, options)),
-      unbind: use((browser) => browser.unbind()),
+      bind: (title, options) =>
+        use((browser) => browser.bind(title, options), {
+          method: "bind",
+          options,
+        }),
+      unbind: use((browser) => browser.unbind(), { method: "unbind" }),
       eventStream: <K extends keyof BrowserEvents>(event: K) =>
         Stream.asyncPush<BrowserEvents[K]>((emit) =>
           Effect.acquireRelease(
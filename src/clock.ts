@@ -108,16 +108,20 @@ export class PlaywrightClock extends Context.Tag(
    * @category constructor
    */
   static make(clock: Clock): typeof PlaywrightClock.Service {
-    const use = useHelper(clock);
+    const use = useHelper(clock, { name: "clock" });
 
     return PlaywrightClock.of({
-      fastForward: (ticks) => use((c) => c.fastForward(ticks)),
-      install: (options) => use((c) => c.install(options)),
-      pauseAt: (time) => use((c) => c.pauseAt(time)),
-      resume: use((c) => c.resume()),
-      runFor: (ticks) => use((c) => c.runFor(ticks)),
-      setFixedTime: (time) => use((c) => c.setFixedTime(time)),
-      setSystemTime: (time) => use((c) => c.setSystemTime(time)),
+      fastForward: (ticks) =>
+        use((c) => c.fastForward(ticks), { method: "fastForward" }),
+      install: (options) =>
+        use((c) => c.install(options), { method: "install", options }),
+      pauseAt: (time) => use((c) => c.pauseAt(time), { method: "pauseAt" }),
+      resume: use((c) => c.resume(), { method: "resume" }),
+      runFor: (ticks) => use((c) => c.runFor(ticks), { method: "runFor" }),
+      setFixedTime: (time) =>
+        use((c) => c.setFixedTime(time), { method: "setFixedTime" }),
+      setSystemTime: (time) =>
+        use((c) => c.setSystemTime(time), { method: "setSystemTime" }),
       use,
     });
   }
@@ -2,8 +2,11 @@ import { assert, layer } from "@effect/vitest";
 import { Chunk, Effect, Fiber, Option, Stream } from "effect";
 import { chromium } from "playwright-core";
 import { PlaywrightBrowser } from "./browser";
+import { PlaywrightWebSocketFrame } from "./common";
 import { PlaywrightEnvironment } from "./experimental";
 
+type SocketWindow = Window & { socket?: WebSocket };
+
 layer(PlaywrightEnvironment.layer(chromium))("PlaywrightCommon", (it) => {
   it.scoped("PlaywrightRequest and PlaywrightResponse", () =>
     Effect.gen(function* () {
@@ -117,7 +120,8 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightCommon", (it) => {
       );
 
       assert(fileChooser.isMultiple() === false);
-      assert(fileChooser.element() !== null);
+      const element = yield* fileChooser.element();
+      assert.strictEqual(yield* element.getAttribute("id"), "fileinput");
     }).pipe(PlaywrightEnvironment.withBrowser),
   );
 
@@ -152,4 +156,78 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightCommon", (it) => {
       assert.strictEqual(text, "hello world");
     }).pipe(PlaywrightEnvironment.withBrowser),
   );
+
+  it.scoped("PlaywrightConsoleMessage", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.goto("about:blank");
+
+      const messageFiber = yield* page
+        .eventStream("console")
+        .pipe(Stream.runHead, Effect.fork);
+      yield* Effect.yieldNow();
+      yield* page.evaluate(() => console.warn("count", 42));
+
+      const message = yield* Fiber.join(messageFiber).pipe(Effect.flatten);
+      assert.strictEqual(message._tag, "PlaywrightConsoleMessage");
+      assert.strictEqual(message.type(), "warning");
+      assert.strictEqual(message.text(), "count 42");
+      assert.deepStrictEqual(yield* message.args, ["count", 42]);
+      assert.isTrue(Option.isSome(message.page()));
+
+      yield* message.dispose;
+      const error = yield* message.args.pipe(Effect.flip);
+      assert.strictEqual(error._tag, "PlaywrightError");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("PlaywrightWebSocket", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.use((p) =>
+        p.routeWebSocket("ws://socket.test/", (ws) => {
+          ws.onMessage((message) => ws.send(`echo: ${message}`));
+        }),
+      );
+      yield* page.goto("about:blank");
+
+      const webSocketFiber = yield* page
+        .eventStream("websocket")
+        .pipe(Stream.runHead, Effect.fork);
+
+      yield* page.evaluate(async () => {
+        const ws = new WebSocket("ws://socket.test/");
+        ws.addEventListener("message", () => ws.close());
+        (window as SocketWindow).socket = ws;
+        await new Promise((resolve) => ws.addEventListener("open", resolve));
+      });
+
+      const webSocket = yield* Fiber.join(webSocketFiber).pipe(Effect.flatten);
+      assert.strictEqual(webSocket.url(), "ws://socket.test/");
+
+      const framesFiber = yield* webSocket.frames.pipe(
+        Stream.runCollect,
+        Effect.fork,
+      );
+      yield* Effect.yieldNow();
+      yield* page.evaluate(() =>
+        (window as SocketWindow).socket?.send("hello"),
+      );
+
+      const frames = yield* Fiber.join(framesFiber);
+      assert.isTrue(webSocket.isClosed());
+      assert.deepStrictEqual(
+        Chunk.toArray(frames).map((frame) =>
+          PlaywrightWebSocketFrame.$match(frame, {
+            Sent: ({ payload }) => `> ${payload}`,
+            Received: ({ payload }) => `< ${payload}`,
+          }),
+        ),
+        ["> hello", "< echo: hello"],
+      );
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
 });
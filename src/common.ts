@@ -1,19 +1,80 @@
 import { Readable } from "node:stream";
-import { Data, Effect, Option, Stream } from "effect";
+import {
+  Data,
+  Effect,
+  identity,
+  Option,
+  type ParseResult,
+  PubSub,
+  type Schema,
+  type Scope,
+  Stream,
+} from "effect";
 import type {
+  APIResponse,
+  ConsoleMessage,
   Dialog,
   Download,
   ElementHandle,
   FileChooser,
   Request,
   Response,
+  Route,
+  WebSocket,
+  WebSocketRoute,
   Worker,
 } from "playwright-core";
-import { type PlaywrightError, wrapError } from "./errors";
+import type { PlaywrightAPIRequestService } from "./api-request";
+import {
+  EvaluateDecodeError,
+  type PlaywrightError,
+  ResponseDecodeError,
+  wrapError,
+} from "./errors";
 import { PlaywrightFrame, type PlaywrightFrameService } from "./frame";
+import {
+  PlaywrightElementHandle,
+  type PlaywrightElementHandleService,
+} from "./handle";
 import { PlaywrightPage, type PlaywrightPageService } from "./page";
-import type { PageFunction } from "./playwright-types";
-import { useHelper } from "./utils";
+import type {
+  PageFunction,
+  PatchedEvents,
+  PatchedWaitForEvent,
+  PlaywrightConsoleMessageLocation,
+} from "./playwright-types";
+import {
+  decodeWith,
+  unwrapHandles,
+  useHelper,
+  waitForWithPredicate,
+} from "./utils";
+
+/**
+ * Options for {@link PlaywrightPageService.eventHub} and
+ * {@link PlaywrightBrowserContextService.eventHub}.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export interface EventHubOptions {
+  /**
+   * What happens when a subscriber falls `capacity` events behind:
+   * - `"unbounded"` buffers all events (default).
+   * - `"sliding"` drops the oldest events.
+   * - `"dropping"` drops new events.
+   */
+  readonly strategy?: "unbounded" | "sliding" | "dropping";
+  /**
+   * Buffer size for the `"sliding"` and `"dropping"` strategies. Defaults to 1024.
+   */
+  readonly capacity?: number;
+  /**
+   * Number of past events replayed to new subscribers. Defaults to `capacity`, so that
+   * a long-running hub does not retain all of its events.
+   */
+  readonly replay?: number;
+}
 
 /**
  * @category model
@@ -136,10 +197,13 @@ export class PlaywrightRequest extends Data.TaggedClass("PlaywrightRequest")<{
   url: () => string;
 }> {
   static make(request: Request): PlaywrightRequest {
-    const use = useHelper(request);
+    const use = useHelper(request, {
+      name: "request",
+      target: (r) => r.url(),
+    });
 
     return new PlaywrightRequest({
-      allHeaders: use(() => request.allHeaders()),
+      allHeaders: use((r) => r.allHeaders(), { method: "allHeaders" }),
       existingResponse: (): Option.Option<PlaywrightResponse> =>
         Option.fromNullable(request.existingResponse()).pipe(
           Option.map(PlaywrightResponse.make),
@@ -150,18 +214,18 @@ export class PlaywrightRequest extends Data.TaggedClass("PlaywrightRequest")<{
         catch: wrapError,
       }),
       headerValue: (name) =>
-        use(() => request.headerValue(name)).pipe(
+        use((r) => r.headerValue(name), { method: "headerValue" }).pipe(
           Effect.map(Option.fromNullable),
         ),
       headers: () => request.headers(),
-      headersArray: use(() => request.headersArray()),
+      headersArray: use((r) => r.headersArray(), { method: "headersArray" }),
       isNavigationRequest: () => request.isNavigationRequest(),
       method: () => request.method(),
       postData: Option.liftNullable(request.postData),
       postDataBuffer: Option.liftNullable(request.postDataBuffer),
-      postDataJSON: use(() => request.postDataJSON()).pipe(
-        Effect.map(Option.fromNullable),
-      ),
+      postDataJSON: use((r) => r.postDataJSON(), {
+        method: "postDataJSON",
+      }).pipe(Effect.map(Option.fromNullable)),
       redirectedFrom: (): Option.Option<PlaywrightRequest> =>
         Option.fromNullable(request.redirectedFrom()).pipe(
           Option.map(PlaywrightRequest.make),
@@ -171,7 +235,7 @@ export class PlaywrightRequest extends Data.TaggedClass("PlaywrightRequest")<{
           Option.map(PlaywrightRequest.make),
         ),
       resourceType: () => request.resourceType(),
-      response: use(() => request.response()).pipe(
+      response: use((r) => r.response(), { method: "response" }).pipe(
         Effect.map(Option.fromNullable),
         Effect.map(Option.map(PlaywrightResponse.make)),
       ),
@@ -179,13 +243,22 @@ export class PlaywrightRequest extends Data.TaggedClass("PlaywrightRequest")<{
         Option.fromNullable(request.serviceWorker()).pipe(
           Option.map(PlaywrightWorker.make),
         ),
-      sizes: use(() => request.sizes()),
+      sizes: use((r) => r.sizes(), { method: "sizes" }),
       timing: () => request.timing(),
       url: () => request.url(),
     });
   }
 }
 
+const responseDecodeError =
+  (response: { url: () => string; status: () => number }) =>
+  (cause: ParseResult.ParseError) =>
+    new ResponseDecodeError({
+      url: response.url(),
+      status: response.status(),
+      cause,
+    });
+
 /**
  * @category model
  * @since 0.1.2
@@ -226,6 +299,20 @@ export class PlaywrightResponse extends Data.TaggedClass("PlaywrightResponse")<{
     PlaywrightError
   >;
   json: Effect.Effect<Awaited<ReturnType<Response["json"]>>, PlaywrightError>;
+  /**
+   * Parses the response body as JSON and decodes it with the given schema.
+   *
+   * @example
+   * ```ts
+   * const User = Schema.Struct({ id: Schema.Number, name: Schema.String });
+   * const user = yield* response.jsonSchema(User);
+   * ```
+   *
+   * @since 0.7.0
+   */
+  jsonSchema: <A, I, R>(
+    schema: Schema.Schema<A, I, R>,
+  ) => Effect.Effect<A, PlaywrightError | ResponseDecodeError, R>;
   ok: () => boolean;
   request: () => PlaywrightRequest;
   securityDetails: Effect.Effect<
@@ -244,38 +331,228 @@ export class PlaywrightResponse extends Data.TaggedClass("PlaywrightResponse")<{
   url: () => string;
 }> {
   static make(response: Response) {
-    const use = useHelper(response);
+    const use = useHelper(response, {
+      name: "response",
+      target: (r) => r.url(),
+    });
 
     return new PlaywrightResponse({
-      allHeaders: use(() => response.allHeaders()),
-      body: use(() => response.body()),
-      finished: use(() => response.finished()),
+      allHeaders: use((r) => r.allHeaders(), { method: "allHeaders" }),
+      body: use((r) => r.body(), { method: "body" }),
+      finished: use((r) => r.finished(), { method: "finished" }),
       frame: Effect.try({
         try: () => PlaywrightFrame.make(response.frame()),
         catch: wrapError,
       }),
       fromServiceWorker: () => response.fromServiceWorker(),
       headers: () => response.headers(),
-      headersArray: use(() => response.headersArray()),
+      headersArray: use((r) => r.headersArray(), { method: "headersArray" }),
       headerValue: (name) =>
-        use(() => response.headerValue(name)).pipe(
+        use((r) => r.headerValue(name), { method: "headerValue" }).pipe(
           Effect.map(Option.fromNullable),
         ),
-      headerValues: (name) => use(() => response.headerValues(name)),
-      httpVersion: use(() => response.httpVersion()),
-      json: use(() => response.json()),
+      headerValues: (name) =>
+        use((r) => r.headerValues(name), { method: "headerValues" }),
+      httpVersion: use((r) => r.httpVersion(), { method: "httpVersion" }),
+      json: use((r) => r.json(), { method: "json" }),
+      jsonSchema: (schema) =>
+        use((r) => r.json(), { method: "json" }).pipe(
+          Effect.flatMap(decodeWith(schema, responseDecodeError(response))),
+        ),
       ok: () => response.ok(),
       request: () => PlaywrightRequest.make(response.request()),
-      securityDetails: use(() => response.securityDetails()).pipe(
+      securityDetails: use((r) => r.securityDetails(), {
+        method: "securityDetails",
+      }).pipe(Effect.map(Option.fromNullable)),
+      serverAddr: use((r) => r.serverAddr(), { method: "serverAddr" }).pipe(
         Effect.map(Option.fromNullable),
       ),
-      serverAddr: use(() => response.serverAddr()).pipe(
+      status: () => response.status(),
+      statusText: () => response.statusText(),
+      text: use((r) => r.text(), { method: "text" }),
+      url: () => response.url(),
+    });
+  }
+}
+
+/**
+ * Response returned by {@link PlaywrightAPIRequestService} methods and {@link PlaywrightRoute.fetch}.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export class PlaywrightAPIResponse extends Data.TaggedClass(
+  "PlaywrightAPIResponse",
+)<{
+  /**
+   * Returns the buffer with response body.
+   * @see {@link APIResponse.body}
+   */
+  body: Effect.Effect<
+    Awaited<ReturnType<APIResponse["body"]>>,
+    PlaywrightError
+  >;
+  /**
+   * Disposes the body of this response. If not called, the body stays in memory
+   * until the request context is disposed.
+   * @see {@link APIResponse.dispose}
+   */
+  dispose: Effect.Effect<void, PlaywrightError>;
+  headers: () => ReturnType<APIResponse["headers"]>;
+  headersArray: () => ReturnType<APIResponse["headersArray"]>;
+  json: Effect.Effect<
+    Awaited<ReturnType<APIResponse["json"]>>,
+    PlaywrightError
+  >;
+  /**
+   * Parses the response body as JSON and decodes it with the given schema.
+   *
+   * @example
+   * ```ts
+   * const User = Schema.Struct({ id: Schema.Number, name: Schema.String });
+   * const user = yield* response.jsonSchema(User);
+   * ```
+   *
+   * @since 0.7.0
+   */
+  jsonSchema: <A, I, R>(
+    schema: Schema.Schema<A, I, R>,
+  ) => Effect.Effect<A, PlaywrightError | ResponseDecodeError, R>;
+  ok: () => boolean;
+  securityDetails: Effect.Effect<
+    Option.Option<
+      NonNullable<Awaited<ReturnType<APIResponse["securityDetails"]>>>
+    >,
+    PlaywrightError
+  >;
+  serverAddr: Effect.Effect<
+    Option.Option<NonNullable<Awaited<ReturnType<APIResponse["serverAddr"]>>>>,
+    PlaywrightError
+  >;
+  status: () => number;
+  statusText: () => string;
+  text: Effect.Effect<
+    Awaited<ReturnType<APIResponse["text"]>>,
+    PlaywrightError
+  >;
+  url: () => string;
+  /**
+   * @internal
+   */
+  _raw: APIResponse;
+}> {
+  static make(response: APIResponse) {
+    const use = useHelper(response, {
+      name: "apiResponse",
+      target: (r) => r.url(),
+    });
+
+    return new PlaywrightAPIResponse({
+      body: use((r) => r.body(), { method: "body" }),
+      dispose: use((r) => r.dispose(), { method: "dispose" }),
+      headers: () => response.headers(),
+      headersArray: () => response.headersArray(),
+      json: use((r) => r.json(), { method: "json" }),
+      jsonSchema: (schema) =>
+        use((r) => r.json(), { method: "json" }).pipe(
+          Effect.flatMap(decodeWith(schema, responseDecodeError(response))),
+        ),
+      ok: () => response.ok(),
+      securityDetails: use((r) => r.securityDetails(), {
+        method: "securityDetails",
+      }).pipe(Effect.map(Option.fromNullable)),
+      serverAddr: use((r) => r.serverAddr(), { method: "serverAddr" }).pipe(
         Effect.map(Option.fromNullable),
       ),
       status: () => response.status(),
       statusText: () => response.statusText(),
-      text: use(() => response.text()),
+      text: use((r) => r.text(), { method: "text" }),
       url: () => response.url(),
+      _raw: response,
+    });
+  }
+}
+
+/**
+ * A route passed to handlers registered with {@link PlaywrightPageService.route}
+ * or {@link PlaywrightBrowserContextService.route}.
+ *
+ * Every intercepted request must be handled exactly once, either by
+ * `fulfill`, `continue`, `abort` or `fallback`.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export class PlaywrightRoute extends Data.TaggedClass("PlaywrightRoute")<{
+  /**
+   * Aborts the route's request.
+   * @see {@link Route.abort}
+   */
+  abort: (errorCode?: string) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Sends the route's request to the network with optional overrides.
+   * @see {@link Route.continue}
+   */
+  continue: (
+    options?: Parameters<Route["continue"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Passes the request to the next matching handler, or to the network if there is none.
+   * @see {@link Route.fallback}
+   */
+  fallback: (
+    options?: Parameters<Route["fallback"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Performs the request and fetches the result without fulfilling it, so that the
+   * response can be modified and then fulfilled.
+   * @see {@link Route.fetch}
+   */
+  fetch: (
+    options?: Parameters<Route["fetch"]>[0],
+  ) => Effect.Effect<PlaywrightAPIResponse, PlaywrightError>;
+  /**
+   * Fulfills the route's request with the given response. The response can be
+   * based on a {@link PlaywrightAPIResponse} obtained from {@link PlaywrightRoute.fetch}.
+   * @see {@link Route.fulfill}
+   */
+  fulfill: (
+    options?: Omit<NonNullable<Parameters<Route["fulfill"]>[0]>, "response"> & {
+      response?: PlaywrightAPIResponse;
+    },
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * A request to be routed.
+   * @see {@link Route.request}
+   */
+  request: () => PlaywrightRequest;
+}> {
+  static make(route: Route) {
+    const use = useHelper(route, {
+      name: "route",
+      target: (r) => r.request().url(),
+    });
+
+    return new PlaywrightRoute({
+      abort: (errorCode) => use((r) => r.abort(errorCode), { method: "abort" }),
+      continue: (options) =>
+        use((r) => r.continue(options), { method: "continue", options }),
+      fallback: (options) =>
+        use((r) => r.fallback(options), { method: "fallback", options }),
+      fetch: (options) =>
+        use((r) => r.fetch(options).then(PlaywrightAPIResponse.make), {
+          method: "fetch",
+          options,
+        }),
+      fulfill: (options) =>
+        use(
+          (r) =>
+            r.fulfill(
+              options && { ...options, response: options.response?._raw },
+            ),
+          { method: "fulfill" },
+        ),
+      request: () => PlaywrightRequest.make(route.request()),
     });
   }
 }
@@ -289,19 +566,451 @@ export class PlaywrightWorker extends Data.TaggedClass("PlaywrightWorker")<{
     pageFunction: PageFunction<Arg, R>,
     arg?: Arg,
   ) => Effect.Effect<R, PlaywrightError>;
+  /**
+   * Like `evaluate`, but decodes the value returned from the worker with the given
+   * schema. Fails with an {@link EvaluateDecodeError} if it does not match.
+   * @see {@link Worker.evaluate}
+   * @since 0.7.0
+   */
+  evaluateSchema: <A, I, R, Arg = void>(
+    schema: Schema.Schema<A, I, R>,
+    pageFunction: PageFunction<Arg, unknown>,
+    arg?: Arg,
+  ) => Effect.Effect<A, PlaywrightError | EvaluateDecodeError, R>;
   url: () => string;
 }> {
   static make(worker: Worker) {
-    const use = useHelper(worker);
+    const use = useHelper(worker, { name: "worker", target: (w) => w.url() });
 
     return new PlaywrightWorker({
-      // biome-ignore lint/suspicious/noExplicitAny: no idea how to type this.. but it's implementation only here
-      evaluate: (f, arg) => use((w) => w.evaluate(f as any, arg)),
+      evaluate: (f, arg) =>
+        // biome-ignore lint/suspicious/noExplicitAny: no idea how to type this.. but it's implementation only here
+        use((w) => w.evaluate(f as any, unwrapHandles(arg)), {
+          method: "evaluate",
+        }),
+      evaluateSchema: (schema, f, arg) =>
+        // biome-ignore lint/suspicious/noExplicitAny: see `evaluate`
+        use((w) => w.evaluate(f as any, unwrapHandles(arg)), {
+          method: "evaluate",
+        }).pipe(
+          Effect.flatMap(
+            decodeWith(
+              schema,
+              (cause) =>
+                new EvaluateDecodeError({
+                  operation: "worker.evaluate",
+                  cause,
+                }),
+            ),
+          ),
+        ),
       url: () => worker.url(),
     });
   }
 }
 
+/**
+ * A frame sent or received by a {@link PlaywrightWebSocket}.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export type PlaywrightWebSocketFrame = Data.TaggedEnum<{
+  Sent: { readonly payload: string | Buffer };
+  Received: { readonly payload: string | Buffer };
+}>;
+
+/**
+ * Constructors and matchers for {@link PlaywrightWebSocketFrame}.
+ *
+ * @example
+ * ```ts
+ * const text = PlaywrightWebSocketFrame.$match(frame, {
+ *   Sent: ({ payload }) => `> ${payload}`,
+ *   Received: ({ payload }) => `< ${payload}`,
+ * });
+ * ```
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export const PlaywrightWebSocketFrame =
+  Data.taggedEnum<PlaywrightWebSocketFrame>();
+
+interface WebSocketEvents {
+  close: WebSocket;
+  framereceived: { payload: string | Buffer };
+  framesent: { payload: string | Buffer };
+  socketerror: string;
+}
+
+const webSocketEventMappings = {
+  close: (webSocket: WebSocket): PlaywrightWebSocket =>
+    PlaywrightWebSocket.make(webSocket),
+  framereceived: (frame: { payload: string | Buffer }) =>
+    PlaywrightWebSocketFrame.Received({ payload: frame.payload }),
+  framesent: (frame: { payload: string | Buffer }) =>
+    PlaywrightWebSocketFrame.Sent({ payload: frame.payload }),
+  socketerror: identity<string>,
+} as const;
+
+type WebSocketWithPatchedEvents = PatchedWaitForEvent<
+  PatchedEvents<WebSocket, WebSocketEvents>,
+  WebSocketEvents
+>;
+
+/**
+ * A WebSocket opened by a page, see the `websocket` event of {@link PlaywrightPageService.eventStream}.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export class PlaywrightWebSocket extends Data.TaggedClass(
+  "PlaywrightWebSocket",
+)<{
+  /**
+   * A stream of all frames sent and received by the WebSocket after the stream
+   * is started. The stream ends when the WebSocket closes.
+   *
+   * @example
+   * ```ts
+   * const received = yield* webSocket.frames.pipe(
+   *   Stream.filter(PlaywrightWebSocketFrame.$is("Received")),
+   *   Stream.take(3),
+   *   Stream.runCollect,
+   * );
+   * ```
+   */
+  frames: Stream.Stream<PlaywrightWebSocketFrame>;
+  /**
+   * Indicates that the WebSocket has been closed.
+   * @see {@link WebSocket.isClosed}
+   */
+  isClosed: () => boolean;
+  /**
+   * Contains the URL of the WebSocket.
+   * @see {@link WebSocket.url}
+   */
+  url: () => string;
+  /**
+   * Waits for the given event to be emitted and returns its value. Frame events
+   * are mapped to {@link PlaywrightWebSocketFrame}.
+   * @see {@link WebSocket.waitForEvent}
+   */
+  waitForEvent: <K extends keyof WebSocketEvents, E = never, R = never>(
+    event: K,
+    options?: {
+      readonly predicate?: (
+        event: ReturnType<(typeof webSocketEventMappings)[K]>,
+      ) => Effect.Effect<boolean, E, R>;
+      readonly timeout?: number;
+    },
+  ) => Effect.Effect<
+    ReturnType<(typeof webSocketEventMappings)[K]>,
+    PlaywrightError | E,
+    R
+  >;
+}> {
+  static make(webSocket: WebSocketWithPatchedEvents): PlaywrightWebSocket {
+    const use = useHelper(webSocket, {
+      name: "webSocket",
+      target: (w) => w.url(),
+    });
+    const mapEvent = <K extends keyof WebSocketEvents>(
+      event: K,
+      value: WebSocketEvents[K],
+    ) =>
+      // biome-ignore lint/suspicious/noExplicitAny: Don't know how to fix this …
+      webSocketEventMappings[event](value as any) as ReturnType<
+        (typeof webSocketEventMappings)[K]
+      >;
+
+    return new PlaywrightWebSocket({
+      frames: Stream.asyncPush<PlaywrightWebSocketFrame>((emit) =>
+        Effect.acquireRelease(
+          Effect.sync(() => {
+            const onSent = (frame: { payload: string | Buffer }) =>
+              emit.single(webSocketEventMappings.framesent(frame));
+            const onReceived = (frame: { payload: string | Buffer }) =>
+              emit.single(webSocketEventMappings.framereceived(frame));
+            const onClose = () => emit.end();
+
+            webSocket.on("framesent", onSent);
+            webSocket.on("framereceived", onReceived);
+            webSocket.once("close", onClose);
+            if (webSocket.isClosed()) emit.end();
+
+            return { onSent, onReceived, onClose };
+          }),
+          ({ onSent, onReceived, onClose }) =>
+            Effect.sync(() => {
+              webSocket.off("framesent", onSent);
+              webSocket.off("framereceived", onReceived);
+              webSocket.off("close", onClose);
+            }),
+        ),
+      ),
+      isClosed: () => webSocket.isClosed(),
+      url: () => webSocket.url(),
+      waitForEvent: (event, options) =>
+        waitForWithPredicate({
+          map: (raw: WebSocketEvents[typeof event]) => mapEvent(event, raw),
+          predicate: options?.predicate,
+          wait: (predicate, signal) =>
+            use(
+              (w) =>
+                w.waitForEvent(event, {
+                  predicate,
+                  timeout: options?.timeout,
+                  signal,
+                }),
+              { method: "waitForEvent", options },
+            ),
+        }),
+    });
+  }
+}
+
+/**
+ * A WebSocket route passed to handlers registered with
+ * {@link PlaywrightPageService.routeWebSocket} or
+ * {@link PlaywrightBrowserContextService.routeWebSocket}.
+ *
+ * By default, a routed WebSocket is not connected to a server and acts as a mock.
+ * Use `connectToServer` to get the server side of the connection for passthrough.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export class PlaywrightWebSocketRoute extends Data.TaggedClass(
+  "PlaywrightWebSocketRoute",
+)<{
+  /**
+   * Closes one side of the WebSocket connection.
+   * @see {@link WebSocketRoute.close}
+   */
+  close: (
+    options?: Parameters<WebSocketRoute["close"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Connects to the actual WebSocket server and returns the server side of the
+   * connection, which can be used to send messages to the server and to receive
+   * messages from it. The connection is only made once, later runs return the same
+   * server side.
+   *
+   * Fails with a {@link PlaywrightError} when called on the server side.
+   * @see {@link WebSocketRoute.connectToServer}
+   */
+  connectToServer: Effect.Effect<PlaywrightWebSocketRoute, PlaywrightError>;
+  /**
+   * A stream of messages sent to this side of the connection, i.e. sent by the page
+   * for the page side and by the server for the server side. The stream ends when
+   * the connection is closed. Concurrent runs of the stream all receive the messages.
+   *
+   * While any run of the stream is active, messages and closing are not forwarded
+   * automatically to the other side of the connection. Forwarding resumes when the
+   * last run ends.
+   * @see {@link WebSocketRoute.onMessage}
+   * @see {@link WebSocketRoute.onClose}
+   */
+  messages: Stream.Stream<string | Buffer>;
+  /**
+   * Returns the subprotocols requested by the page.
+   * @see {@link WebSocketRoute.protocols}
+   */
+  protocols: () => Array<string>;
+  /**
+   * Sends a message to this side of the connection, i.e. to the page for the page
+   * side and to the server for the server side.
+   * @see {@link WebSocketRoute.send}
+   */
+  send: (message: string | Buffer) => Effect.Effect<void>;
+  /**
+   * URL of the WebSocket created in the page.
+   * @see {@link WebSocketRoute.url}
+   */
+  url: () => string;
+}> {
+  static make(route: WebSocketRoute): PlaywrightWebSocketRoute {
+    return makeWebSocketRoute(route, undefined);
+  }
+}
+
+/**
+ * Wraps one side of a routed WebSocket, where `pageRoute` is the page side when
+ * wrapping the server side.
+ */
+const makeWebSocketRoute = (
+  route: WebSocketRoute,
+  pageRoute: WebSocketRoute | undefined,
+): PlaywrightWebSocketRoute => {
+  const use = useHelper(route, {
+    name: "webSocketRoute",
+    target: (r) => r.url(),
+  });
+  let server: PlaywrightWebSocketRoute | undefined;
+  let serverRoute: WebSocketRoute | undefined;
+  // the other side of the connection, if connected, to forward to like Playwright
+  const peer = () => pageRoute ?? serverRoute;
+
+  // Playwright keeps a single handler per route, so it is registered once and shared
+  // by every run of `messages`, which replaces the forwarding of Playwright
+  const hub = Effect.runSync(
+    PubSub.unbounded<Option.Option<string | Buffer>>(),
+  );
+  let listening = false;
+  let subscribers = 0;
+  let closed = false;
+  const listen = () => {
+    if (listening) {
+      return;
+    }
+    listening = true;
+    route.onMessage((message) => {
+      if (subscribers > 0) {
+        hub.unsafeOffer(Option.some(message));
+      } else {
+        peer()?.send(message);
+      }
+    });
+    route.onClose((code, reason) => {
+      closed = true;
+      hub.unsafeOffer(Option.none());
+      if (subscribers === 0) {
+        peer()
+          ?.close({ code, reason })
+          .catch(() => {});
+      }
+    });
+  };
+
+  return new PlaywrightWebSocketRoute({
+    close: (options) =>
+      use((r) => r.close(options), { method: "close", options }),
+    connectToServer: Effect.try({
+      try: () => {
+        if (server === undefined) {
+          serverRoute = route.connectToServer();
+          server = makeWebSocketRoute(serverRoute, route);
+        }
+        return server;
+      },
+      catch: wrapError,
+    }),
+    messages: Stream.unwrapScoped(
+      Effect.gen(function* () {
+        yield* Effect.sync(listen);
+        const messages = yield* PubSub.subscribe(hub);
+        yield* Effect.acquireRelease(
+          Effect.sync(() => {
+            subscribers++;
+          }),
+          () =>
+            Effect.sync(() => {
+              subscribers--;
+            }),
+        );
+        return closed
+          ? Stream.empty
+          : Stream.fromQueue(messages).pipe(
+              Stream.takeWhile(Option.isSome),
+              Stream.map((message) => message.value),
+            );
+      }),
+    ),
+    protocols: () => route.protocols(),
+    send: (message) => Effect.sync(() => route.send(message)),
+    url: () => route.url(),
+  });
+};
+
+/**
+ * The type of a {@link PlaywrightConsoleMessage}, e.g. `"log"`, `"warning"` or `"error"`.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export type PlaywrightConsoleMessageType = ReturnType<ConsoleMessage["type"]>;
+
+export type { PlaywrightConsoleMessageLocation } from "./playwright-types";
+
+/**
+ * A message logged to the console of a page or worker.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export class PlaywrightConsoleMessage extends Data.TaggedClass(
+  "PlaywrightConsoleMessage",
+)<{
+  /**
+   * The JSON values of the arguments passed to the console function. The arguments
+   * are only serialized when this effect is run.
+   * @see {@link ConsoleMessage.args}
+   */
+  args: Effect.Effect<ReadonlyArray<unknown>, PlaywrightError>;
+  /**
+   * Disposes the JSHandles of the arguments passed to the console function, so that
+   * the browser can release them. `args` fails afterwards.
+   * @see {@link ConsoleMessage.args}
+   */
+  dispose: Effect.Effect<void, PlaywrightError>;
+  /**
+   * @see {@link ConsoleMessage.location}
+   */
+  location: () => PlaywrightConsoleMessageLocation;
+  /**
+   * The page that produced this message, if any.
+   * @see {@link ConsoleMessage.page}
+   */
+  page: () => Option.Option<PlaywrightPageService>;
+  /**
+   * The text of the console message.
+   * @see {@link ConsoleMessage.text}
+   */
+  text: () => string;
+  /**
+   * The timestamp of the message in milliseconds since the Unix epoch.
+   * @see {@link ConsoleMessage.timestamp}
+   */
+  timestamp: () => number;
+  /**
+   * @see {@link ConsoleMessage.type}
+   */
+  type: () => PlaywrightConsoleMessageType;
+  /**
+   * The web worker or service worker that produced this message, if any.
+   * @see {@link ConsoleMessage.worker}
+   */
+  worker: () => Option.Option<PlaywrightWorker>;
+}> {
+  static make(message: ConsoleMessage) {
+    const use = useHelper(message, { name: "consoleMessage" });
+
+    return new PlaywrightConsoleMessage({
+      args: use((m) => Promise.all(m.args().map((arg) => arg.jsonValue())), {
+        method: "args",
+      }),
+      dispose: use(
+        (m) => Promise.all(m.args().map((arg) => arg.dispose())).then(() => {}),
+        { method: "dispose" },
+      ),
+      location: () => message.location(),
+      page: () =>
+        Option.fromNullable(message.page()).pipe(
+          Option.map(PlaywrightPage.make),
+        ),
+      text: () => message.text(),
+      timestamp: () => message.timestamp(),
+      type: () => message.type(),
+      worker: () =>
+        Option.fromNullable(message.worker()).pipe(
+          Option.map(PlaywrightWorker.make),
+        ),
+    });
+  }
+}
+
 /**
  * @category model
  * @since 0.1.2
@@ -315,12 +1024,13 @@ export class PlaywrightDialog extends Data.TaggedClass("PlaywrightDialog")<{
   type: () => string;
 }> {
   static make(dialog: Dialog) {
-    const use = useHelper(dialog);
+    const use = useHelper(dialog, { name: "dialog" });
 
     return new PlaywrightDialog({
-      accept: (promptText) => use(() => dialog.accept(promptText)),
+      accept: (promptText) =>
+        use((d) => d.accept(promptText), { method: "accept" }),
       defaultValue: () => dialog.defaultValue(),
-      dismiss: use(() => dialog.dismiss()),
+      dismiss: use((d) => d.dismiss(), { method: "dismiss" }),
       message: () => dialog.message(),
       page: () =>
         Option.fromNullable(dialog.page()).pipe(
@@ -338,7 +1048,16 @@ export class PlaywrightDialog extends Data.TaggedClass("PlaywrightDialog")<{
 export class PlaywrightFileChooser extends Data.TaggedClass(
   "PlaywrightFileChooser",
 )<{
-  element: () => ElementHandle;
+  /**
+   * Returns the input element associated with this file chooser. The handle is disposed
+   * when the scope closes.
+   * @see {@link FileChooser.element}
+   */
+  element: () => Effect.Effect<
+    PlaywrightElementHandleService,
+    never,
+    Scope.Scope
+  >;
   isMultiple: () => boolean;
   page: () => PlaywrightPageService;
   setFiles: (
@@ -347,14 +1066,20 @@ export class PlaywrightFileChooser extends Data.TaggedClass(
   ) => Effect.Effect<void, PlaywrightError>;
 }> {
   static make(fileChooser: FileChooser) {
-    const use = useHelper(fileChooser);
+    const use = useHelper(fileChooser, { name: "fileChooser" });
 
     return new PlaywrightFileChooser({
-      element: () => fileChooser.element(),
+      element: () =>
+        PlaywrightElementHandle.scoped(
+          Effect.sync(
+            () =>
+              fileChooser.element() as ElementHandle<SVGElement | HTMLElement>,
+          ),
+        ),
       isMultiple: () => fileChooser.isMultiple(),
       page: () => PlaywrightPage.make(fileChooser.page()),
       setFiles: (files, options) =>
-        use(() => fileChooser.setFiles(files, options)),
+        use((f) => f.setFiles(files, options), { method: "setFiles", options }),
     });
   }
 }
@@ -383,13 +1108,16 @@ export class PlaywrightDownload extends Data.TaggedClass("PlaywrightDownload")<{
   ) => Effect.Effect<R, PlaywrightError>;
 }> {
   static make(download: Download) {
-    const use = useHelper(download);
+    const use = useHelper(download, {
+      name: "download",
+      target: (d) => d.url(),
+    });
 
     return new PlaywrightDownload({
-      cancel: use(() => download.cancel()),
-      stream: use(() =>
-        download.createReadStream().then((s) => Readable.toWeb(s)),
-      ).pipe(
+      cancel: use((d) => d.cancel(), { method: "cancel" }),
+      stream: use((d) => d.createReadStream().then((s) => Readable.toWeb(s)), {
+        method: "createReadStream",
+      }).pipe(
         Effect.map((s) =>
           Stream.fromReadableStream(
             () => s as ReadableStream<Uint8Array>,
@@ -398,13 +1126,15 @@ export class PlaywrightDownload extends Data.TaggedClass("PlaywrightDownload")<{
         ),
         Stream.unwrap,
       ),
-      delete: use(() => download.delete()),
-      failure: use(() => download.failure()).pipe(
+      delete: use((d) => d.delete(), { method: "delete" }),
+      failure: use((d) => d.failure(), { method: "failure" }).pipe(
         Effect.map(Option.fromNullable),
       ),
       page: () => PlaywrightPage.make(download.page()),
-      path: use(() => download.path()).pipe(Effect.map(Option.fromNullable)),
-      saveAs: (path) => use(() => download.saveAs(path)),
+      path: use((d) => d.path(), { method: "path" }).pipe(
+        Effect.map(Option.fromNullable),
+      ),
+      saveAs: (path) => use((d) => d.saveAs(path), { method: "saveAs" }),
       suggestedFilename: () => download.suggestedFilename(),
       url: () => download.url(),
       use,
@@ -87,13 +87,14 @@ export class PlaywrightCredentials extends Context.Tag(
    * @since 0.5.1
    */
   static make(credentials: Credentials): PlaywrightCredentialsService {
-    const use = useHelper(credentials);
+    const use = useHelper(credentials, { name: "credentials" });
 
     return PlaywrightCredentials.of({
-      install: use((c) => c.install()),
-      create: (rpId, options) => use((c) => c.create(rpId, options)),
-      get: (options) => use((c) => c.get(options)),
-      delete: (id) => use((c) => c.delete(id)),
+      install: use((c) => c.install(), { method: "install" }),
+      create: (rpId, options) =>
+        use((c) => c.create(rpId, options), { method: "create", options }),
+      get: (options) => use((c) => c.get(options), { method: "get", options }),
+      delete: (id) => use((c) => c.delete(id), { method: "delete" }),
     });
   }
 }
@@ -0,0 +1,183 @@
+import { assert, describe, it } from "@effect/vitest";
+import { Duration, Effect } from "effect";
+import { errors } from "playwright-core";
+import { PlaywrightError, wrapError } from "./errors";
+import { useHelper } from "./utils";
+
+describe("wrapError", () => {
+  it("should detect timeouts with operation and selector", () => {
+    const error = wrapError(
+      new errors.TimeoutError(
+        "locator.click: Timeout 100ms exceeded.\nCall log:\n  - waiting for locator('button')\n",
+      ),
+    );
+
+    assert.strictEqual(error.reason, "Timeout");
+    assert.strictEqual(error.operation, "locator.click");
+    assert.strictEqual(error.selector, "locator('button')");
+  });
+
+  it("should detect failed navigations with net error and url", () => {
+    const error = wrapError(
+      new Error(
+        'page.goto: net::ERR_NAME_NOT_RESOLVED at http://unknown.invalid/\nCall log:\n  - navigating to "http://unknown.invalid/", waiting until "load"\n',
+      ),
+    );
+
+    assert.strictEqual(error.reason, "NavigationFailed");
+    assert.strictEqual(error.operation, "page.goto");
+    assert.strictEqual(error.netError, "net::ERR_NAME_NOT_RESOLVED");
+    assert.strictEqual(error.url, "http://unknown.invalid/");
+  });
+
+  it("should detect strict mode violations with match count", () => {
+    const error = wrapError(
+      new Error(
+        "locator.textContent: Error: strict mode violation: locator('li') resolved to 3 elements:\n    1) <li>One</li>\n",
+      ),
+    );
+
+    assert.strictEqual(error.reason, "StrictModeViolation");
+    assert.strictEqual(error.selector, "locator('li')");
+    assert.strictEqual(error.matchCount, 3);
+  });
+
+  it("should detect closed targets", () => {
+    const error = wrapError(
+      new Error("page.click: Target page, context or browser has been closed"),
+    );
+
+    assert.strictEqual(error.reason, "TargetClosed");
+    assert.strictEqual(error.operation, "page.click");
+  });
+
+  it("should not treat other closed resources as closed targets", () => {
+    const error = wrapError(
+      new Error("webSocketRoute.send: WebSocket has been closed"),
+    );
+
+    assert.strictEqual(error.reason, "Unknown");
+  });
+
+  it("should detect element and evaluation errors", () => {
+    assert.strictEqual(
+      wrapError(
+        new Error("elementHandle.click: Element is not attached to the DOM"),
+      ).reason,
+      "ElementNotAttached",
+    );
+    assert.strictEqual(
+      wrapError(new Error("elementHandle.fill: Element is not visible")).reason,
+      "ElementNotVisible",
+    );
+    assert.strictEqual(
+      wrapError(new Error("page.evaluate: Error: boom\n    at eval")).reason,
+      "EvaluationFailed",
+    );
+  });
+
+  it("should detect aborted operations", () => {
+    const abort = new Error("The operation was aborted");
+    abort.name = "AbortError";
+
+    assert.strictEqual(wrapError(abort).reason, "Aborted");
+  });
+
+  it("should prefer the wrapped operation over the method in the message", () => {
+    const error = wrapError(new Error("frame.click: Error: boom"), {
+      operation: "locator.click",
+    });
+
+    assert.strictEqual(error.operation, "locator.click");
+  });
+
+  it("should fall back to unknown", () => {
+    const error = wrapError("not an error");
+
+    assert.strictEqual(error.reason, "Unknown");
+    assert.strictEqual(error.cause, "not an error");
+  });
+
+  it.effect("isReason should refine by reason", () =>
+    Effect.gen(function* () {
+      const result = yield* Effect.fail(
+        wrapError(new Error("page.goto: net::ERR_ABORTED at http://a.test/")),
+      ).pipe(
+        Effect.catchIf(PlaywrightError.isReason("NavigationFailed"), (error) =>
+          Effect.succeed(error.netError),
+        ),
+      );
+
+      assert.strictEqual(result, "net::ERR_ABORTED");
+    }),
+  );
+});
+
+describe("useHelper", () => {
+  it.effect("should record operation metadata on failures", () =>
+    Effect.gen(function* () {
+      const fakePage = {
+        url: () => "http://example.test/",
+        goto: (url: string) =>
+          Promise.reject(new Error(`page.goto: net::ERR_ABORTED at ${url}`)),
+      };
+      const use = useHelper(fakePage, {
+        name: "page",
+        target: (p) => p.url(),
+      });
+
+      const error = yield* use((p) => p.goto("http://other.test/"), {
+        method: "goto",
+      }).pipe(Effect.flip);
+
+      assert.strictEqual(error.operation, "page.goto");
+      assert.strictEqual(error.target, "http://example.test/");
+      assert.strictEqual(error.reason, "NavigationFailed");
+      assert.isTrue(
+        error.elapsed !== undefined &&
+          Duration.greaterThanOrEqualTo(error.elapsed, Duration.zero),
+      );
+    }),
+  );
+
+  it.effect("should pass the original object to the user function", () =>
+    Effect.gen(function* () {
+      class Counter {
+        count = 0;
+        increment() {
+          this.count++;
+          return Promise.resolve(this);
+        }
+      }
+      const counter = new Counter();
+      const use = useHelper(counter, { name: "counter" });
+
+      const result = yield* use(
+        (c) => {
+          assert.strictEqual(c, counter);
+          assert.strictEqual(c.increment, c.increment);
+          return c.increment();
+        },
+        { method: "increment" },
+      );
+
+      assert.strictEqual(result, counter);
+      assert.strictEqual(counter.count, 1);
+    }),
+  );
+
+  it.effect("should not start the call before the effect runs", () =>
+    Effect.gen(function* () {
+      let calls = 0;
+      const use = useHelper({}, { name: "counter" });
+
+      const effect = use(() => Promise.resolve(++calls), {
+        method: "increment",
+      });
+      assert.strictEqual(calls, 0);
+
+      assert.strictEqual(yield* effect, 1);
+      assert.strictEqual(yield* effect, 2);
+    }),
+  );
+});
@@ -1,21 +1,53 @@
-import { Data } from "effect";
+import { Data, type Duration, type ParseResult } from "effect";
 import { errors } from "playwright-core";
+import type { PlaywrightConsoleMessageLocation } from "./playwright-types";
 
 /**
- * Playwright does not provide detailed error information but there is
- * a distinction between timeout and other errors.
+ * The reason of a {@link PlaywrightError}, derived from the type and message of the
+ * error thrown by Playwright.
+ *
+ * - `Timeout`: a timeout was reached.
+ * - `TargetClosed`: the page, context or browser was closed while the operation was running.
+ * - `BrowserDisconnected`: the connection to the browser was lost.
+ * - `NavigationFailed`: a navigation failed, e.g. with a network error (see `netError`).
+ * - `StrictModeViolation`: a locator resolved to more than one element (see `matchCount`).
+ * - `ElementNotAttached`: the element was detached from the DOM.
+ * - `ElementNotVisible`: the element is not visible.
+ * - `EvaluationFailed`: evaluating a function in the page failed.
+ * - `Aborted`: the operation was aborted.
+ * - `Unknown`: any other error.
  *
  * @category error
  * @since 0.1.0
  */
-export type PlaywrightErrorReason = "Timeout" | "Unknown";
+export type PlaywrightErrorReason =
+  | "Timeout"
+  | "TargetClosed"
+  | "BrowserDisconnected"
+  | "NavigationFailed"
+  | "StrictModeViolation"
+  | "ElementNotAttached"
+  | "ElementNotVisible"
+  | "EvaluationFailed"
+  | "Aborted"
+  | "Unknown";
 
 /**
  * Error type that is returned when a Playwright error occurs.
- * Reason can either be "Timeout" or "Unknown".
  *
- * Timeout errors occur when a timeout is reached. All other errors are
- * grouped under "Unknown".
+ * The `reason` classifies the error, see {@link PlaywrightErrorReason}. Where
+ * known, the error also carries the operation that failed (e.g.
+ * `"locator.click"`), the selector and URL involved, the network error code of
+ * failed navigations and the number of elements matched in strict mode violations.
+ *
+ * @example
+ * ```ts
+ * const program = page.goto("https://example.com").pipe(
+ *   Effect.catchIf(PlaywrightError.isReason("NavigationFailed"), (error) =>
+ *     Effect.logWarning(`${error.url} failed with ${error.netError}`),
+ *   ),
+ * );
+ * ```
  *
  * @category error
  * @since 0.1.0
@@ -23,18 +55,282 @@ export type PlaywrightErrorReason = "Timeout" | "Unknown";
 export class PlaywrightError extends Data.TaggedError("PlaywrightError")<{
   reason: PlaywrightErrorReason;
   cause: unknown;
+  /**
+   * The selector of the locator involved, e.g. `"locator('button')"`.
+   * @since 0.7.0
+   */
+  selector?: string;
+  /**
+   * The URL involved in a failed navigation.
+   * @since 0.7.0
+   */
+  url?: string;
+  /**
+   * The network error code of a failed navigation, e.g. `"net::ERR_NAME_NOT_RESOLVED"`.
+   * @since 0.7.0
+   */
+  netError?: string;
+  /**
+   * The number of elements a locator resolved to in a strict mode violation.
+   * @since 0.7.0
+   */
+  matchCount?: number;
+  /**
+   * The operation that failed, e.g. `"page.goto"` or `"locator.click"`: the wrapper
+   * method that was called, or else the Playwright method named in the error message.
+   * @since 0.7.0
+   */
+  operation?: string;
+  /**
+   * Describes the object the operation was called on, e.g. the page URL or the
+   * locator description.
+   * @since 0.7.0
+   */
+  target?: string;
+  /**
+   * Time elapsed between starting the operation and its failure.
+   * @since 0.7.0
+   */
+  elapsed?: Duration.Duration;
+}> {
+  /**
+   * Returns a refinement that checks whether an error is a `PlaywrightError` with one
+   * of the given reasons. Useful together with `Effect.catchIf` or `Effect.retry`.
+   *
+   * @since 0.7.0
+   */
+  static isReason =
+    <const Reason extends PlaywrightErrorReason>(...reasons: Array<Reason>) =>
+    (u: unknown): u is PlaywrightError & { readonly reason: Reason } =>
+      u instanceof PlaywrightError &&
+      (reasons as ReadonlyArray<PlaywrightErrorReason>).includes(u.reason);
+}
+
+/**
+ * Error type that is returned when a response body does not match the
+ * schema passed to `jsonSchema`.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class ResponseDecodeError extends Data.TaggedError(
+  "ResponseDecodeError",
+)<{
+  url: string;
+  status: number;
+  cause: ParseResult.ParseError;
 }> {}
 
-export function wrapError(error: unknown): PlaywrightError {
-  if (error instanceof errors.TimeoutError) {
-    return new PlaywrightError({
-      reason: "Timeout",
-      cause: error,
-    });
-  } else {
+/**
+ * Error type that is returned by {@link PlaywrightPage.failOnPageError} when the page
+ * throws an uncaught exception.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class UncaughtPageError extends Data.TaggedError("UncaughtPageError")<{
+  /** URL of the page at the time the exception was thrown. */
+  url: string;
+  cause: Error;
+}> {}
+
+/**
+ * Error type that is returned by {@link PlaywrightPage.failOnPageError} when the page
+ * crashes, e.g. because it ran out of memory.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class PageCrashedError extends Data.TaggedError("PageCrashedError")<{
+  /** URL of the page at the time it crashed. */
+  url: string;
+}> {}
+
+/**
+ * Error type that is returned by {@link PlaywrightPage.failOnPageError} when the page
+ * logs a console error and `consoleErrors` is enabled.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class PageConsoleError extends Data.TaggedError("PageConsoleError")<{
+  /** URL of the page at the time the error was logged. */
+  url: string;
+  /** Text of the console message. */
+  text: string;
+  /** Source location of the console message. */
+  location: PlaywrightConsoleMessageLocation;
+}> {}
+
+/**
+ * Error type that is returned by {@link PlaywrightPage.failOnPageError} when a request
+ * made by the page fails and `requestFailed` is enabled.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class PageRequestFailedError extends Data.TaggedError(
+  "PageRequestFailedError",
+)<{
+  /** URL of the failed request. */
+  url: string;
+  method: string;
+  /** Error text reported by the browser, e.g. `net::ERR_CONNECTION_REFUSED`. */
+  failure: string;
+}> {}
+
+/**
+ * Error type that is returned by `evaluateSchema` when the value returned from the
+ * browser does not match the schema.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class EvaluateDecodeError extends Data.TaggedError(
+  "EvaluateDecodeError",
+)<{
+  /** The evaluating operation, e.g. `page.evaluate`. */
+  operation: string;
+  cause: ParseResult.ParseError;
+}> {}
+
+/**
+ * Error type that is returned by the {@link PlaywrightExpect} assertions when the
+ * expectation is not met before the timeout.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class AssertionError extends Data.TaggedError("AssertionError")<{
+  message: string;
+  /** The failed assertion, e.g. `toHaveText`. */
+  matcher: string;
+  expected: unknown;
+  /** The last value received, or `undefined` if it could not be retrieved. */
+  actual: unknown;
+  /** The error of the last attempt to retrieve the value, if it failed. */
+  cause?: PlaywrightError;
+}> {}
+
+/**
+ * Error type that is returned by {@link PlaywrightExpect.softly} when one or more
+ * assertions inside of it failed.
+ *
+ * @category error
+ * @since 0.7.0
+ */
+export class SoftAssertionErrors extends Data.TaggedError(
+  "SoftAssertionErrors",
+)<{
+  message: string;
+  /** The failed assertions, in the order in which they failed. */
+  errors: ReadonlyArray<AssertionError>;
+}> {}
+
+const methodPattern = /^(\w+\.\w+): /;
+const netErrorPattern = /\b(net::ERR_[A-Z_]+|NS_ERROR_[A-Z_]+)(?: at (\S+))?/;
+const navigatingPattern = /navigating to "(.+?)"/;
+const strictModePattern =
+  /strict mode violation: (.+?) resolved to (\d+) elements/;
+const waitingForPattern =
+  /waiting for ((?:locator|getBy\w+|frameLocator|internal:\w+)\(.+)$/m;
+
+const isAbortError = (error: Error) =>
+  error.name === "AbortError" ||
+  error.message.includes("operation was aborted");
+
+const isBrowserDisconnected = (message: string) =>
+  /Browser has been closed|Browser closed|browser has disconnected|Connection closed/.test(
+    message,
+  );
+
+const isTargetClosed = (message: string) =>
+  /\bTarget (?:page, context or browser has been closed|closed)\b/.test(
+    message,
+  );
+
+const isNavigationError = (message: string) =>
+  /Navigation (?:to ".+?" )?(?:failed|is interrupted)/.test(message);
+
+const isEvaluationError = (method: string | undefined, message: string) =>
+  (method !== undefined && /\.(?:evaluate\w*|\$\$?eval)$/.test(method)) ||
+  message.includes("Execution context was destroyed");
+
+const reasonOf = (
+  error: Error,
+  method: string | undefined,
+  details: Omit<
+    ConstructorParameters<typeof PlaywrightError>[0],
+    "reason" | "cause"
+  >,
+): PlaywrightErrorReason => {
+  const message = error.message;
+
+  if (error instanceof errors.TimeoutError) return "Timeout";
+  if (isAbortError(error)) return "Aborted";
+  if (isBrowserDisconnected(message)) return "BrowserDisconnected";
+  if (isTargetClosed(message)) return "TargetClosed";
+  if (details.matchCount !== undefined) return "StrictModeViolation";
+  if (message.includes("Element is not attached to the DOM"))
+    return "ElementNotAttached";
+  if (message.includes("Element is not visible")) return "ElementNotVisible";
+  if (details.netError !== undefined || isNavigationError(message))
+    return "NavigationFailed";
+  if (isEvaluationError(method, message)) return "EvaluationFailed";
+  return "Unknown";
+};
+
+/**
+ * Metadata about the operation that produced an error, added by `useHelper`.
+ *
+ * @internal
+ */
+export interface OperationContext {
+  readonly operation?: string | undefined;
+  readonly target?: string | undefined;
+  readonly elapsed?: Duration.Duration | undefined;
+}
+
+export function wrapError(
+  error: unknown,
+  context?: OperationContext,
+): PlaywrightError {
+  const metadata = {
+    ...(context?.target !== undefined && { target: context.target }),
+    ...(context?.elapsed !== undefined && { elapsed: context.elapsed }),
+  };
+
+  if (!(error instanceof Error)) {
     return new PlaywrightError({
       reason: "Unknown",
       cause: error,
+      ...(context?.operation !== undefined && { operation: context.operation }),
+      ...metadata,
     });
   }
+
+  const message = error.message;
+  // the method Playwright names in its message, e.g. `locator.click`
+  const method = methodPattern.exec(message)?.[1];
+  const operation = context?.operation ?? method;
+  const netError = netErrorPattern.exec(message);
+  const strictMode = strictModePattern.exec(message);
+  const url = netError?.[2] ?? navigatingPattern.exec(message)?.[1];
+  const selector =
+    strictMode?.[1] ?? waitingForPattern.exec(message)?.[1]?.trim();
+
+  const details = {
+    ...(operation !== undefined && { operation }),
+    ...(selector !== undefined && { selector }),
+    ...(url !== undefined && { url }),
+    ...(netError !== null && { netError: netError[1] }),
+    ...(strictMode !== null && { matchCount: Number(strictMode[2]) }),
+  };
+
+  return new PlaywrightError({
+    reason: reasonOf(error, method, details),
+    cause: error,
+    ...details,
+    ...metadata,
+  });
 }
@@ -1,5 +1,5 @@
-import { layer } from "@effect/vitest";
-import { Effect, Stream } from "effect";
+import { assert, layer } from "@effect/vitest";
+import { Chunk, Deferred, Effect, Fiber, Stream } from "effect";
 import { chromium } from "playwright-core";
 import { PlaywrightBrowser } from "./browser";
 import { PlaywrightEnvironment } from "./experimental";
@@ -46,4 +46,82 @@ layer(PlaywrightEnvironment.layer(chromium))("eventStream", (it) => {
       // test will timeout if the stream does not complete
     }).pipe(PlaywrightEnvironment.withBrowser),
   );
+
+  it.scoped("eventHub should replay events emitted before running", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.goto("about:blank");
+
+      const messages = yield* page.eventHub("console");
+      yield* page.evaluate(() => {
+        console.log("first");
+        console.log("second");
+      });
+      yield* page.close;
+
+      const texts = messages.pipe(
+        Stream.map((message) => message.text()),
+        Stream.runCollect,
+        Effect.map(Chunk.toArray),
+      );
+      assert.deepStrictEqual(yield* texts, ["first", "second"]);
+      // every run is a new subscriber that receives the buffered events
+      assert.deepStrictEqual(yield* texts, ["first", "second"]);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("eventHub should respect the sliding strategy", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.goto("about:blank");
+
+      const messages = yield* page.eventHub("console", {
+        strategy: "sliding",
+        capacity: 2,
+      });
+      yield* page.evaluate(() => {
+        for (let i = 0; i < 5; i++) console.log(`message ${i}`);
+      });
+
+      const texts = yield* messages.pipe(
+        Stream.map((message) => message.text()),
+        Stream.take(2),
+        Stream.runCollect,
+      );
+      assert.deepStrictEqual(Chunk.toArray(texts), ["message 3", "message 4"]);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("eventHub should end with the dropping strategy", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.goto("about:blank");
+
+      const messages = yield* page.eventHub("console", {
+        strategy: "dropping",
+        capacity: 2,
+        replay: 1,
+      });
+      const closed = yield* Deferred.make<void>();
+      // a subscriber that only consumes once the page is closed, so that it drops events
+      const texts = yield* messages.pipe(
+        Stream.mapEffect((message) =>
+          Deferred.await(closed).pipe(Effect.as(message.text())),
+        ),
+        Stream.runCollect,
+        Effect.fork,
+      );
+      yield* page.evaluate(() => {
+        for (let i = 0; i < 5; i++) console.log(`message ${i}`);
+      });
+      yield* page.close;
+      yield* Deferred.succeed(closed, undefined);
+
+      // test will timeout if the stream does not complete
+      assert.isAtMost(Chunk.size(yield* Fiber.join(texts)), 5);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
 });
@@ -0,0 +1,139 @@
+import { assert, layer } from "@effect/vitest";
+import { Effect, Schedule } from "effect";
+import { chromium } from "playwright-core";
+import { PlaywrightBrowser } from "./browser";
+import { SoftAssertionErrors } from "./errors";
+import * as PlaywrightExpect from "./expect";
+import { PlaywrightEnvironment } from "./experimental";
+
+layer(PlaywrightEnvironment.layer(chromium))("PlaywrightExpect", (it) => {
+  // the TestClock does not advance by itself, so retry without delays
+  const options = { schedule: Schedule.recurs(500) };
+
+  it.scoped("should pass once the page reaches the expected state", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.setContent(`
+        <title>Expect</title>
+        <ul><li>one</li></ul>
+        <button id="save" data-state="idle">  Save
+          changes </button>
+      `);
+      yield* page.evaluate(() => {
+        setTimeout(() => {
+          const item = document.createElement("li");
+          item.textContent = "two";
+          document.querySelector("ul")?.appendChild(item);
+          document.querySelector("#save")?.setAttribute("data-state", "done");
+          document.title = "Saved";
+        }, 50);
+      });
+
+      const save = page.locator("#save");
+      yield* PlaywrightExpect.toBeVisible(save, options);
+      yield* PlaywrightExpect.toBeHidden(page.locator("#missing"), options);
+      yield* PlaywrightExpect.toHaveText(save, "Save changes", options);
+      yield* PlaywrightExpect.toHaveText(save, /Save\s+changes/, options);
+      yield* PlaywrightExpect.toHaveCount(page.locator("li"), 2, options);
+      yield* PlaywrightExpect.toHaveAttribute(
+        save,
+        "data-state",
+        "done",
+        options,
+      );
+      yield* PlaywrightExpect.toHaveTitle(page, "Saved", options);
+      yield* PlaywrightExpect.toHaveURL(page, "about:blank", options);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("should fail with the last received value", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.setContent(`<p>Hello</p><p>World</p>`);
+
+      const count = yield* PlaywrightExpect.toHaveCount(page.locator("p"), 3, {
+        schedule: Schedule.recurs(2),
+      }).pipe(Effect.flip);
+
+      assert.strictEqual(count._tag, "AssertionError");
+      assert.strictEqual(count.matcher, "toHaveCount");
+      assert.strictEqual(count.expected, 3);
+      assert.strictEqual(count.actual, 2);
+
+      const text = yield* PlaywrightExpect.toHaveText(
+        page.locator("p"),
+        "Hello",
+        { schedule: Schedule.recurs(2) },
+      ).pipe(Effect.flip);
+
+      assert.deepStrictEqual(text.actual, ["Hello", "World"]);
+      assert.include(text.message, "toHaveText");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("should fail when the value cannot be retrieved", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.setContent(`<p>Hello</p><p>World</p>`);
+
+      // strict mode violation: the locator resolves to two elements
+      const error = yield* PlaywrightExpect.toBeVisible(page.locator("p"), {
+        schedule: Schedule.recurs(1),
+      }).pipe(Effect.flip);
+
+      assert.strictEqual(error.matcher, "toBeVisible");
+      assert.isDefined(error.cause);
+      assert.strictEqual(error.cause?._tag, "PlaywrightError");
+      assert.include(error.message, "StrictModeViolation");
+      assert.include(error.message, "strict mode violation");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+  it.scoped("should collect failed assertions inside softly", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.setContent(`<p id="name">Jane</p><p id="city">Paris</p>`);
+
+      const reached: Array<string> = [];
+      const error = yield* PlaywrightExpect.softly(
+        Effect.gen(function* () {
+          yield* PlaywrightExpect.toHaveText(page.locator("#name"), "John", {
+            schedule: Schedule.recurs(1),
+          });
+          yield* PlaywrightExpect.toHaveText(page.locator("#city"), "Paris");
+          yield* PlaywrightExpect.toHaveCount(page.locator("p"), 3, {
+            schedule: Schedule.recurs(1),
+          });
+          reached.push("end");
+        }),
+      ).pipe(
+        Effect.flip,
+        Effect.filterOrDieMessage(
+          (error) => error instanceof SoftAssertionErrors,
+          "expected SoftAssertionErrors",
+        ),
+      );
+
+      assert.deepStrictEqual(reached, ["end"]);
+      assert.deepStrictEqual(
+        error.errors.map((failure) => failure.matcher),
+        ["toHaveText", "toHaveCount"],
+      );
+
+      // assertions outside of softly still fail immediately
+      const outside = yield* PlaywrightExpect.toHaveCount(
+        page.locator("p"),
+        3,
+        { schedule: Schedule.recurs(1) },
+      ).pipe(Effect.flip);
+      assert.strictEqual(outside._tag, "AssertionError");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+});
@@ -0,0 +1,328 @@
+import {
+  Cause,
+  Duration,
+  Effect,
+  Exit,
+  FiberRef,
+  Option,
+  Ref,
+  Schedule,
+} from "effect";
+import {
+  AssertionError,
+  type PlaywrightError,
+  SoftAssertionErrors,
+} from "./errors";
+import type { PlaywrightLocatorService } from "./locator";
+import type { PlaywrightPageService } from "./page";
+
+/**
+ * Options for the {@link PlaywrightExpect} assertions.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export interface ExpectOptions {
+  /**
+   * How long to keep retrying before failing. Defaults to 5 seconds.
+   */
+  readonly timeout?: Duration.DurationInput;
+  /**
+   * The schedule of the retries. Defaults to every 100 milliseconds.
+   */
+  readonly schedule?: Schedule.Schedule<unknown, AssertionError>;
+}
+
+const defaultTimeout = Duration.seconds(5);
+const defaultSchedule = Schedule.spaced(Duration.millis(100));
+
+const format = (value: unknown) =>
+  value instanceof RegExp ? String(value) : JSON.stringify(value);
+
+/** Describes a `PlaywrightError` with its reason, operation and the first line of its cause. */
+const describeError = (error: PlaywrightError) => {
+  const message =
+    error.cause instanceof Error ? error.cause.message : String(error.cause);
+  const operation = error.operation ? ` (${error.operation})` : "";
+  return `${error.reason}${operation}: ${message.split("\n")[0]}`;
+};
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const matchesText = (expected: string | RegExp, actual: string) =>
+  typeof expected === "string"
+    ? normalizeWhitespace(actual) === normalizeWhitespace(expected)
+    : expected.test(actual);
+
+/** The failures collected by the innermost {@link softly} scope, if any. */
+const currentSoftAssertions = FiberRef.unsafeMake<
+  Option.Option<Ref.Ref<ReadonlyArray<AssertionError>>>
+>(Option.none());
+
+const failOrRecord = (error: AssertionError) =>
+  Effect.flatMap(
+    FiberRef.get(currentSoftAssertions),
+    Option.match({
+      onNone: () => Effect.fail(error),
+      onSome: (failures) =>
+        Ref.update(failures, (errors) => [...errors, error]),
+    }),
+  );
+
+/**
+ * Retries `probe` until `matches` holds for its result. Fails with an `AssertionError`
+ * describing the last attempt once the schedule ends or the timeout is reached, or
+ * records it in the enclosing {@link softly} scope.
+ */
+const retry = <A>(
+  matcher: string,
+  expected: unknown,
+  probe: Effect.Effect<A, PlaywrightError>,
+  matches: (actual: A) => boolean,
+  options: ExpectOptions | undefined,
+): Effect.Effect<void, AssertionError> =>
+  Effect.suspend(() => {
+    let failure = new AssertionError({
+      message: `${matcher}: timed out before the first check`,
+      matcher,
+      expected,
+      actual: undefined,
+    });
+
+    const attempt = probe.pipe(
+      Effect.mapError(
+        (cause) =>
+          new AssertionError({
+            message: `${matcher}: expected ${format(expected)}, but failed to retrieve the value: ${describeError(cause)}`,
+            matcher,
+            expected,
+            actual: undefined,
+            cause,
+          }),
+      ),
+      Effect.filterOrFail(
+        matches,
+        (actual) =>
+          new AssertionError({
+            message: `${matcher}: expected ${format(expected)}, received ${format(actual)}`,
+            matcher,
+            expected,
+            actual,
+          }),
+      ),
+      Effect.tapError((error) =>
+        Effect.sync(() => {
+          failure = error;
+        }),
+      ),
+    );
+
+    return attempt.pipe(
+      Effect.retry(options?.schedule ?? defaultSchedule),
+      Effect.timeoutFail({
+        duration: options?.timeout ?? defaultTimeout,
+        onTimeout: () => failure,
+      }),
+      Effect.asVoid,
+      Effect.catchAll(failOrRecord),
+    );
+  });
+
+/**
+ * Runs `effect` with soft assertions: failed {@link PlaywrightExpect} assertions inside
+ * of it are recorded instead of short-circuiting, so that the rest of the effect still
+ * runs. When the effect completes, all recorded failures are reported together as a
+ * single `SoftAssertionErrors`.
+ *
+ * If the effect itself fails, the `SoftAssertionErrors` is added to its cause.
+ * In `test.effect` from `effect-playwright/test`, every recorded failure is also
+ * attached to the `TestInfo` errors.
+ *
+ * @example
+ * ```ts
+ * yield* PlaywrightExpect.softly(
+ *   Effect.gen(function* () {
+ *     yield* PlaywrightExpect.toHaveText(page.locator("#name"), "Jane Doe");
+ *     yield* PlaywrightExpect.toHaveText(page.locator("#city"), "Berlin");
+ *     yield* PlaywrightExpect.toHaveText(page.locator("#total"), "42.00 €");
+ *   }),
+ * );
+ * ```
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const softly = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+): Effect.Effect<A, E | SoftAssertionErrors, R> =>
+  Effect.gen(function* () {
+    const failures = yield* Ref.make<ReadonlyArray<AssertionError>>([]);
+    const exit = yield* Effect.exit(
+      Effect.locally(effect, currentSoftAssertions, Option.some(failures)),
+    );
+    const errors = yield* Ref.get(failures);
+    if (errors.length === 0) {
+      return yield* exit;
+    }
+
+    const error = new SoftAssertionErrors({
+      message: [
+        `${errors.length} soft assertion(s) failed:`,
+        ...errors.map((failure) => `  - ${failure.message}`),
+      ].join("\n"),
+      errors,
+    });
+    return yield* Exit.isSuccess(exit)
+      ? Effect.fail(error)
+      : Effect.failCause(Cause.sequential(exit.cause, Cause.fail(error)));
+  });
+
+/**
+ * Asserts that the locator resolves to a single visible element.
+ *
+ * @example
+ * ```ts
+ * yield* page.locator("#submit").click();
+ * yield* PlaywrightExpect.toBeVisible(page.locator(".success"));
+ * ```
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toBeVisible = (
+  locator: PlaywrightLocatorService,
+  options?: ExpectOptions,
+) =>
+  retry(
+    "toBeVisible",
+    true,
+    locator.isVisible(),
+    (visible) => visible,
+    options,
+  );
+
+/**
+ * Asserts that the locator resolves to no element or to a hidden element.
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toBeHidden = (
+  locator: PlaywrightLocatorService,
+  options?: ExpectOptions,
+) => retry("toBeHidden", true, locator.isHidden(), (hidden) => hidden, options);
+
+/**
+ * Asserts that the locator resolves to a single element with the given text content.
+ * Strings are compared with normalized whitespace, regular expressions are tested
+ * against the raw text.
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toHaveText = (
+  locator: PlaywrightLocatorService,
+  expected: string | RegExp,
+  options?: ExpectOptions,
+) =>
+  retry(
+    "toHaveText",
+    expected,
+    locator.allTextContents(),
+    (texts) => texts.length === 1 && matchesText(expected, texts[0]),
+    options,
+  );
+
+/**
+ * Asserts that the locator resolves to exactly `expected` elements.
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toHaveCount = (
+  locator: PlaywrightLocatorService,
+  expected: number,
+  options?: ExpectOptions,
+) =>
+  retry(
+    "toHaveCount",
+    expected,
+    locator.count,
+    (count) => count === expected,
+    options,
+  );
+
+/**
+ * Asserts that the locator resolves to a single element whose attribute `name` matches
+ * the expected value.
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toHaveAttribute = (
+  locator: PlaywrightLocatorService,
+  name: string,
+  expected: string | RegExp,
+  options?: ExpectOptions,
+) =>
+  retry(
+    "toHaveAttribute",
+    expected,
+    locator.evaluateAll(
+      (elements, attribute) =>
+        elements.map((element) => element.getAttribute(attribute)),
+      name,
+    ),
+    (values) =>
+      values.length === 1 &&
+      values[0] !== null &&
+      (typeof expected === "string"
+        ? values[0] === expected
+        : expected.test(values[0])),
+    options,
+  );
+
+/**
+ * Asserts that the page URL matches the expected string or regular expression.
+ *
+ * @example
+ * ```ts
+ * yield* page.getByRole("link", { name: "Orders" }).click();
+ * yield* PlaywrightExpect.toHaveURL(page, /\/orders$/);
+ * ```
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toHaveURL = (
+  page: PlaywrightPageService,
+  expected: string | RegExp,
+  options?: ExpectOptions,
+) =>
+  retry(
+    "toHaveURL",
+    expected,
+    Effect.sync(() => page.url()),
+    (url) =>
+      typeof expected === "string" ? url === expected : expected.test(url),
+    options,
+  );
+
+/**
+ * Asserts that the page title matches the expected string or regular expression.
+ *
+ * @category assertion
+ * @since 0.7.0
+ */
+export const toHaveTitle = (
+  page: PlaywrightPageService,
+  expected: string | RegExp,
+  options?: ExpectOptions,
+) =>
+  retry(
+    "toHaveTitle",
+    expected,
+    page.title,
+    (title) => matchesText(expected, title),
+    options,
+  );
@@ -1,9 +1,44 @@
 import { assert, layer } from "@effect/vitest";
-import { Chunk, Effect, Fiber, Stream } from "effect";
+import { Chunk, Deferred, Effect, Fiber, Stream } from "effect";
 import { chromium } from "playwright-core";
-import { Playwright } from "../index";
+import {
+  Playwright,
+  type PlaywrightBrowserService,
+  type PlaywrightPageService,
+} from "../index";
 import * as BrowserUtils from "./browser-utils";
 
+/**
+ * Subscribes to the console events of all pages and waits until the subscription is
+ * active, by logging from `page` until a message is received. Returns a fiber with the
+ * next two messages after that.
+ */
+const subscribeConsole = (
+  browser: PlaywrightBrowserService,
+  page: PlaywrightPageService,
+) =>
+  Effect.gen(function* () {
+    const ready = yield* Deferred.make<void>();
+    const events = yield* BrowserUtils.allPagesEventStream(
+      browser,
+      "console",
+    ).pipe(
+      Stream.tap(() => Deferred.succeed(ready, undefined)),
+      Stream.filter(({ value }) => value.text() !== "ready"),
+      Stream.take(2),
+      Stream.runCollect,
+      Effect.fork,
+    );
+    yield* page
+      .evaluate(() => console.log("ready"))
+      .pipe(
+        Effect.repeat({
+          until: () => Deferred.isDone(ready),
+        }),
+      );
+    return { events };
+  });
+
 layer(Playwright.layer)("BrowserUtils", (it) => {
   it.scoped("allPages should return all pages from all contexts", () =>
     Effect.gen(function* () {
@@ -86,6 +121,57 @@ layer(Playwright.layer)("BrowserUtils", (it) => {
       }),
   );
 
+  it.scoped(
+    "allPagesEventStream should tag events with their page and context",
+    () =>
+      Effect.gen(function* () {
+        const playwright = yield* Playwright;
+        const browser = yield* playwright.launchScoped(chromium);
+
+        const context1 = yield* browser.newContext();
+        const context2 = yield* browser.newContext();
+        const page1 = yield* context1.newPage;
+
+        const { events: eventFiber } = yield* subscribeConsole(browser, page1);
+
+        yield* page1.evaluate(() => console.log("from page 1"));
+        const page2 = yield* context2.newPage;
+        yield* page2.evaluate(() => console.log("from page 2"));
+
+        const events = Chunk.toArray(yield* Fiber.join(eventFiber));
+        assert.deepStrictEqual(
+          events.map(({ event, value }) => [event, value.text()]),
+          [
+            ["console", "from page 1"],
+            ["console", "from page 2"],
+          ],
+        );
+        assert.strictEqual(events[0].context.pages().length, 1);
+        assert.strictEqual(events[1].page.url(), "about:blank");
+      }),
+  );
+
+  it.scoped("allPagesEventStream should include future contexts", () =>
+    Effect.gen(function* () {
+      const playwright = yield* Playwright;
+      const browser = yield* playwright.launchScoped(chromium);
+      const page1 = yield* browser.newPage();
+
+      const { events: eventFiber } = yield* subscribeConsole(browser, page1);
+
+      const context = yield* browser.newContext();
+      const page2 = yield* context.newPage;
+      yield* page2.evaluate(() => console.log("from a new context"));
+      yield* page2.evaluate(() => console.log("again"));
+
+      const events = Chunk.toArray(yield* Fiber.join(eventFiber));
+      assert.deepStrictEqual(
+        events.map(({ value }) => value.text()),
+        ["from a new context", "again"],
+      );
+    }),
+  );
+
   it.scoped("page eventStream should capture framenavigated", () =>
     Effect.gen(function* () {
       const playwright = yield* Playwright;
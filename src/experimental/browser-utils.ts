@@ -1,5 +1,11 @@
-import { Array, Effect, pipe, Stream } from "effect";
+import { Array, Effect, Stream } from "effect";
 import type { PlaywrightBrowserService } from "../browser";
+import type { PlaywrightBrowserContextService } from "../browser-context";
+import type {
+  PlaywrightPageEvent,
+  PlaywrightPageEventName,
+  PlaywrightPageService,
+} from "../page";
 
 /**
  * Returns all pages in the browser from all contexts.
@@ -18,32 +24,86 @@ export const allFrames = (browser: PlaywrightBrowserService) =>
   );
 
 /**
- * Returns a stream of all framenavigated events for all current and future pages in the browser.
- * In all current contexts (but not future contexts).
+ * A page event emitted by {@link allPagesEventStream}, tagged with the page and the
+ * context it originates from.
+ * @category model
+ */
+export interface AllPagesEvent<K extends PlaywrightPageEventName> {
+  readonly event: K;
+  readonly value: PlaywrightPageEvent<K>;
+  readonly page: PlaywrightPageService;
+  readonly context: PlaywrightBrowserContextService;
+}
+
+/**
+ * Returns a stream of the given event for all current and future pages in the browser,
+ * in all current and future contexts.
+ *
+ * @example
+ * ```ts
+ * const requests = BrowserUtils.allPagesEventStream(browser, "request").pipe(
+ *   Stream.map(({ value, page }) => `${page.url()}: ${value.url()}`),
+ * );
+ * ```
+ *
  * @category util
  */
-export const allFrameNavigatedEventStream = (
+export const allPagesEventStream = <K extends PlaywrightPageEventName>(
   browser: PlaywrightBrowserService,
-) =>
-  Effect.gen(function* () {
-    const contexts = browser.contexts();
-    const pages = Array.flatten(contexts.map((c) => c.pages()));
+  event: K,
+): Stream.Stream<AllPagesEvent<K>> =>
+  Effect.sync(() => {
+    const pageEvents = (
+      page: PlaywrightPageService,
+      context: PlaywrightBrowserContextService,
+    ) =>
+      page
+        .eventStream(event)
+        .pipe(
+          Stream.map(
+            (value): AllPagesEvent<K> => ({ event, value, page, context }),
+          ),
+        );
 
-    // listen for framenavigated for all current pages
-    const currentPages = pages.map((page) =>
-      page.eventStream("framenavigated"),
-    );
+    const contextEvents = (context: PlaywrightBrowserContextService) => {
+      // listen for the event on all current pages
+      const currentPages = context
+        .pages()
+        .map((page) => pageEvents(page, context));
+
+      // and all future pages
+      const newPages = context.eventStream("page").pipe(
+        Stream.flatMap((page) => pageEvents(page, context), {
+          concurrency: "unbounded",
+        }),
+      );
 
-    // and all future pages
-    const newPages = pipe(
-      contexts.map((c) => c.eventStream("page")),
-      Stream.mergeAll({ concurrency: "unbounded" }),
-      Stream.flatMap((page) => page.eventStream("framenavigated"), {
+      return Stream.mergeAll([newPages, ...currentPages], {
         concurrency: "unbounded",
-      }),
-    );
+      });
+    };
+
+    // in all current and future contexts
+    const newContexts = browser
+      .eventStream("context")
+      .pipe(Stream.flatMap(contextEvents, { concurrency: "unbounded" }));
 
-    return Stream.mergeAll([newPages, ...currentPages], {
-      concurrency: "unbounded",
-    });
+    return Stream.mergeAll(
+      [newContexts, ...browser.contexts().map(contextEvents)],
+      { concurrency: "unbounded" },
+    );
   }).pipe(Stream.unwrap);
+
+/**
+ * Returns a stream of all framenavigated events for all current and future pages in the browser,
+ * in all current and future contexts.
+ *
+ * @see {@link allPagesEventStream}
+ * @category util
+ */
+export const allFrameNavigatedEventStream = (
+  browser: PlaywrightBrowserService,
+) =>
+  allPagesEventStream(browser, "framenavigated").pipe(
+    Stream.map(({ value }) => value),
+  );
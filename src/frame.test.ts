@@ -110,9 +110,7 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightFrame", (it) => {
       // Test frameElement
       const frameEl = yield* frame.frameElement;
       assert.isOk(frameEl, "Frame element not found");
-      const tagName = yield* Effect.promise(() =>
-        frameEl.evaluate((el) => (el as Element).tagName),
-      );
+      const tagName = yield* frameEl.evaluate((el) => el.tagName);
       assert.strictEqual(tagName, "IFRAME");
 
       // Test setContent
@@ -167,4 +165,51 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightFrame", (it) => {
       assert.ok(true);
     }).pipe(PlaywrightEnvironment.withBrowser),
   );
+
+  it.scoped("should perform selector-based actions in the frame", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      const frame = page.mainFrame();
+
+      yield* frame.setContent(`
+        <input id="name" />
+        <input id="agree" type="checkbox" />
+        <select id="plan"><option>basic</option><option>pro</option></select>
+        <p id="status" hidden>Done</p>
+        <iframe srcdoc="<button>Pay</button>"></iframe>
+      `);
+
+      yield* frame.fill("#name", "Ada");
+      yield* frame.press("#name", "End");
+      yield* frame.check("#agree");
+      const selected = yield* frame.selectOption("#plan", "pro");
+      assert.deepStrictEqual(selected, ["pro"]);
+
+      assert.strictEqual(
+        yield* frame.evaluate(
+          () => (document.getElementById("name") as HTMLInputElement).value,
+        ),
+        "Ada",
+      );
+      assert.isFalse(yield* frame.isVisible("#status"));
+      assert.strictEqual(yield* frame.textContent("#status"), "Done");
+
+      yield* frame.evaluate(() => {
+        setTimeout(() => {
+          document.getElementById("status")?.removeAttribute("hidden");
+        }, 50);
+      });
+      const status = yield* frame.waitForSelector("#status");
+      assert.isTrue(Option.isSome(status));
+
+      const payButton = frame.frameLocator("iframe").locator("button");
+      assert.strictEqual(yield* payButton.textContent(), "Pay");
+
+      const style = yield* frame.addStyleTag({
+        content: "#name { color: rgb(255, 0, 0); }",
+      });
+      assert.strictEqual(yield* style.evaluate((el) => el.tagName), "STYLE");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
 });
@@ -1,10 +1,30 @@
-import { Array, Context, type Effect, Option } from "effect";
-import type { ElementHandle, Frame } from "playwright-core";
-import type { PlaywrightError } from "./errors";
+import {
+  Array,
+  Context,
+  Effect,
+  Option,
+  type Schema,
+  type Scope,
+} from "effect";
+import type { ElementHandle, Frame, JSHandle } from "playwright-core";
+import { EvaluateDecodeError, type PlaywrightError } from "./errors";
+import {
+  PlaywrightFrameLocator,
+  type PlaywrightFrameLocatorService,
+} from "./frame-locator";
+import {
+  PlaywrightElementHandle,
+  type PlaywrightElementHandleService,
+} from "./handle";
 import { PlaywrightLocator } from "./locator";
 import { PlaywrightPage, type PlaywrightPageService } from "./page";
 import type { PageFunction } from "./playwright-types";
-import { useHelper } from "./utils";
+import {
+  decodeWith,
+  jsonValueAndDispose,
+  unwrapHandles,
+  useHelper,
+} from "./utils";
 
 /**
  * @category model
@@ -52,6 +72,43 @@ export interface PlaywrightFrameService {
     arg?: Arg,
     options?: Parameters<Frame["evaluate"]>[2],
   ) => Effect.Effect<R, PlaywrightError>;
+  /**
+   * Like `evaluate`, but decodes the value returned from the browser with the given
+   * schema. Fails with an {@link EvaluateDecodeError} if it does not match.
+   *
+   * @example
+   * ```ts
+   * const title = yield* frame.evaluateSchema(Schema.String, () => document.title);
+   * ```
+   *
+   * @see {@link Frame.evaluate}
+   * @since 0.7.0
+   */
+  readonly evaluateSchema: <A, I, R, Arg = void>(
+    schema: Schema.Schema<A, I, R>,
+    pageFunction: PageFunction<Arg, unknown>,
+    arg?: Arg,
+    options?: Parameters<Frame["evaluate"]>[2],
+  ) => Effect.Effect<A, PlaywrightError | EvaluateDecodeError, R>;
+  /**
+   * Waits until the function returns a truthy value and returns that value.
+   *
+   * The value is serialized to JSON, like the result of `evaluate`. Use `polling` to poll
+   * on an interval (in milliseconds) instead of on every animation frame.
+   *
+   * @example
+   * ```ts
+   * yield* frame.waitForFunction(() => document.readyState === "complete");
+   * ```
+   *
+   * @see {@link Frame.waitForFunction}
+   * @since 0.7.0
+   */
+  readonly waitForFunction: <R, Arg = void>(
+    pageFunction: PageFunction<Arg, R>,
+    arg?: Arg,
+    options?: Parameters<Frame["waitForFunction"]>[2],
+  ) => Effect.Effect<R, PlaywrightError>;
   /**
    * Returns the frame title.
    *
@@ -224,12 +281,17 @@ export interface PlaywrightFrameService {
   readonly content: Effect.Effect<string, PlaywrightError>;
 
   /**
-   * Returns the owner iframe element for the frame.
+   * Returns the owner iframe element for the frame. The handle is disposed when the
+   * scope closes.
    *
    * @see {@link Frame.frameElement}
    * @since 0.5.1
    */
-  readonly frameElement: Effect.Effect<ElementHandle, PlaywrightError>;
+  readonly frameElement: Effect.Effect<
+    PlaywrightElementHandleService,
+    PlaywrightError,
+    Scope.Scope
+  >;
 
   /**
    * Returns the frame name.
@@ -239,6 +301,191 @@ export interface PlaywrightFrameService {
    */
   readonly name: () => string;
 
+  /**
+   * Fills an input element matching the given selector with the given value.
+   *
+   * @see {@link Frame.fill}
+   * @since 0.7.0
+   */
+  readonly fill: (
+    selector: string,
+    value: string,
+    options?: Parameters<Frame["fill"]>[2],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Double-clicks an element matching the given selector.
+   *
+   * @see {@link Frame.dblclick}
+   * @since 0.7.0
+   */
+  readonly dblclick: (
+    selector: string,
+    options?: Parameters<Frame["dblclick"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Hovers over an element matching the given selector.
+   *
+   * @see {@link Frame.hover}
+   * @since 0.7.0
+   */
+  readonly hover: (
+    selector: string,
+    options?: Parameters<Frame["hover"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Focuses an element matching the given selector and presses the given key.
+   *
+   * @see {@link Frame.press}
+   * @since 0.7.0
+   */
+  readonly press: (
+    selector: string,
+    key: string,
+    options?: Parameters<Frame["press"]>[2],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Types text into an element matching the given selector, one character at a time.
+   *
+   * @deprecated In most cases use {@link PlaywrightFrameService.fill} instead, see {@link Frame.type}.
+   * @see {@link Frame.type}
+   * @since 0.7.0
+   */
+  readonly type: (
+    selector: string,
+    text: string,
+    options?: Parameters<Frame["type"]>[2],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Checks a checkbox or radio element matching the given selector.
+   *
+   * @see {@link Frame.check}
+   * @since 0.7.0
+   */
+  readonly check: (
+    selector: string,
+    options?: Parameters<Frame["check"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Selects options in a `select` element matching the given selector and returns the
+   * selected values.
+   *
+   * @see {@link Frame.selectOption}
+   * @since 0.7.0
+   */
+  readonly selectOption: (
+    selector: string,
+    values: Parameters<Frame["selectOption"]>[1],
+    options?: Parameters<Frame["selectOption"]>[2],
+  ) => Effect.Effect<Array<string>, PlaywrightError>;
+
+  /**
+   * Sets the files of a file input element matching the given selector.
+   *
+   * @see {@link Frame.setInputFiles}
+   * @since 0.7.0
+   */
+  readonly setInputFiles: (
+    selector: string,
+    files: Parameters<Frame["setInputFiles"]>[1],
+    options?: Parameters<Frame["setInputFiles"]>[2],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Drags the source element to the target element.
+   *
+   * @see {@link Frame.dragAndDrop}
+   * @since 0.7.0
+   */
+  readonly dragAndDrop: (
+    source: string,
+    target: string,
+    options?: Parameters<Frame["dragAndDrop"]>[2],
+  ) => Effect.Effect<void, PlaywrightError>;
+
+  /**
+   * Adds a `<script>` tag into the frame with the desired url or content. The returned
+   * handle is disposed when the scope closes.
+   *
+   * @see {@link Frame.addScriptTag}
+   * @since 0.7.0
+   */
+  readonly addScriptTag: (
+    options: Parameters<Frame["addScriptTag"]>[0],
+  ) => Effect.Effect<
+    PlaywrightElementHandleService,
+    PlaywrightError,
+    Scope.Scope
+  >;
+
+  /**
+   * Adds a `<link rel="stylesheet">` tag into the frame with the desired url or a `<style
+   * type="text/css">` tag with the content. The returned handle is disposed when the scope
+   * closes.
+   *
+   * @see {@link Frame.addStyleTag}
+   * @since 0.7.0
+   */
+  readonly addStyleTag: (
+    options: Parameters<Frame["addStyleTag"]>[0],
+  ) => Effect.Effect<
+    PlaywrightElementHandleService,
+    PlaywrightError,
+    Scope.Scope
+  >;
+
+  /**
+   * Waits for an element matching the given selector to satisfy the `state` option and
+   * returns it, or `None` when waiting for `hidden` or `detached`. The returned handle is
+   * disposed when the scope closes.
+   *
+   * @see {@link Frame.waitForSelector}
+   * @since 0.7.0
+   */
+  readonly waitForSelector: (
+    selector: string,
+    options?: Parameters<Frame["waitForSelector"]>[1],
+  ) => Effect.Effect<
+    Option.Option<PlaywrightElementHandleService>,
+    PlaywrightError,
+    Scope.Scope
+  >;
+
+  /**
+   * Creates a frame locator for an `iframe` matching the given selector.
+   *
+   * @see {@link Frame.frameLocator}
+   * @since 0.7.0
+   */
+  readonly frameLocator: (selector: string) => PlaywrightFrameLocatorService;
+
+  /**
+   * Returns whether an element matching the given selector is visible.
+   *
+   * @see {@link Frame.isVisible}
+   * @since 0.7.0
+   */
+  readonly isVisible: (
+    selector: string,
+    options?: Parameters<Frame["isVisible"]>[1],
+  ) => Effect.Effect<boolean, PlaywrightError>;
+
+  /**
+   * Returns the text content of an element matching the given selector.
+   *
+   * @see {@link Frame.textContent}
+   * @since 0.7.0
+   */
+  readonly textContent: (
+    selector: string,
+    options?: Parameters<Frame["textContent"]>[1],
+  ) => Effect.Effect<string | null, PlaywrightError>;
+
   /**
    * Clicks an element matching the given selector.
    *
@@ -267,26 +514,79 @@ export class PlaywrightFrame extends Context.Tag(
    * @since 0.1.2
    */
   static make(frame: Frame): PlaywrightFrameService {
-    const use = useHelper(frame);
+    const use = useHelper(frame, { name: "frame", target: (f) => f.url() });
 
     return PlaywrightFrame.of({
-      goto: (url, options) => use((f) => f.goto(url, options)),
-      waitForURL: (url, options) => use((f) => f.waitForURL(url, options)),
+      goto: (url, options) =>
+        use((f) => f.goto(url, options), { method: "goto", options }),
+      waitForURL: (url, options) =>
+        use((f) => f.waitForURL(url, options), {
+          method: "waitForURL",
+          options,
+        }),
       waitForLoadState: (state, options) =>
-        use((f) => f.waitForLoadState(state, options)),
+        use((f) => f.waitForLoadState(state, options), {
+          method: "waitForLoadState",
+          options,
+        }),
       evaluate: <R, Arg>(
         f: PageFunction<Arg, R>,
         arg?: Arg,
         options?: Parameters<Frame["evaluate"]>[2],
       ) =>
-        use((frame) =>
-          frame.evaluate<R, Arg>(
-            f as unknown as Parameters<typeof frame.evaluate<R, Arg>>[0],
-            arg as Arg,
-            options,
+        use(
+          (frame) =>
+            frame.evaluate<R, Arg>(
+              f as unknown as Parameters<typeof frame.evaluate<R, Arg>>[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "evaluate", options },
+        ),
+      waitForFunction: <R, Arg>(
+        f: PageFunction<Arg, R>,
+        arg?: Arg,
+        options?: Parameters<Frame["waitForFunction"]>[2],
+      ) =>
+        use(
+          (frame) =>
+            frame
+              .waitForFunction<R, Arg>(
+                f as unknown as Parameters<
+                  typeof frame.waitForFunction<R, Arg>
+                >[0],
+                unwrapHandles(arg) as Arg,
+                options,
+              )
+              .then((handle) => jsonValueAndDispose(handle as JSHandle<R>)),
+          { method: "waitForFunction", options },
+        ),
+      evaluateSchema: <A, I, R, Arg>(
+        schema: Schema.Schema<A, I, R>,
+        f: PageFunction<Arg, unknown>,
+        arg?: Arg,
+        options?: Parameters<Frame["evaluate"]>[2],
+      ) =>
+        use(
+          (frame) =>
+            frame.evaluate<unknown, Arg>(
+              f as unknown as Parameters<
+                typeof frame.evaluate<unknown, Arg>
+              >[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "evaluate", options },
+        ).pipe(
+          Effect.flatMap(
+            decodeWith(
+              schema,
+              (cause) =>
+                new EvaluateDecodeError({ operation: "frame.evaluate", cause }),
+            ),
           ),
         ),
-      title: use((f) => f.title()),
+      title: use((f) => f.title(), { method: "title" }),
       use,
       locator: (selector, options) =>
         PlaywrightLocator.make(frame.locator(selector, options)),
@@ -312,13 +612,109 @@ export class PlaywrightFrame extends Context.Tag(
       childFrames: () =>
         Array.map(frame.childFrames(), (f) => PlaywrightFrame.make(f)),
       isDetached: () => frame.isDetached(),
-      waitForTimeout: (timeout) => use((f) => f.waitForTimeout(timeout)),
-      setContent: (html, options) => use((f) => f.setContent(html, options)),
+      waitForTimeout: (timeout) =>
+        use((f) => f.waitForTimeout(timeout), { method: "waitForTimeout" }),
+      setContent: (html, options) =>
+        use((f) => f.setContent(html, options), {
+          method: "setContent",
+          options,
+        }),
       url: () => frame.url(),
-      content: use((f) => f.content()),
-      frameElement: use((f) => f.frameElement()),
+      content: use((f) => f.content(), { method: "content" }),
+      frameElement: PlaywrightElementHandle.scoped(
+        use(
+          (f) =>
+            f.frameElement() as Promise<
+              ElementHandle<SVGElement | HTMLElement>
+            >,
+          { method: "frameElement" },
+        ),
+      ),
       name: () => frame.name(),
-      click: (selector, options) => use((f) => f.click(selector, options)),
+      fill: (selector, value, options) =>
+        use((f) => f.fill(selector, value, options), {
+          method: "fill",
+          options,
+        }),
+      dblclick: (selector, options) =>
+        use((f) => f.dblclick(selector, options), {
+          method: "dblclick",
+          options,
+        }),
+      hover: (selector, options) =>
+        use((f) => f.hover(selector, options), { method: "hover", options }),
+      press: (selector, key, options) =>
+        use((f) => f.press(selector, key, options), {
+          method: "press",
+          options,
+        }),
+      type: (selector, text, options) =>
+        use((f) => f.type(selector, text, options), {
+          method: "type",
+          options,
+        }),
+      check: (selector, options) =>
+        use((f) => f.check(selector, options), { method: "check", options }),
+      selectOption: (selector, values, options) =>
+        use((f) => f.selectOption(selector, values, options), {
+          method: "selectOption",
+          options,
+        }),
+      setInputFiles: (selector, files, options) =>
+        use((f) => f.setInputFiles(selector, files, options), {
+          method: "setInputFiles",
+          options,
+        }),
+      dragAndDrop: (source, target, options) =>
+        use((f) => f.dragAndDrop(source, target, options), {
+          method: "dragAndDrop",
+          options,
+        }),
+      addScriptTag: (options) =>
+        PlaywrightElementHandle.scoped(
+          use(
+            (f) =>
+              f.addScriptTag(options) as Promise<
+                ElementHandle<SVGElement | HTMLElement>
+              >,
+            { method: "addScriptTag", options },
+          ),
+        ),
+      addStyleTag: (options) =>
+        PlaywrightElementHandle.scoped(
+          use(
+            (f) =>
+              f.addStyleTag(options) as Promise<
+                ElementHandle<SVGElement | HTMLElement>
+              >,
+            { method: "addStyleTag", options },
+          ),
+        ),
+      waitForSelector: (selector, options) =>
+        use((f) => f.waitForSelector(selector, options ?? {}), {
+          method: "waitForSelector",
+        }).pipe(
+          Effect.map(Option.fromNullable),
+          Effect.flatMap(
+            Effect.transposeMapOption((handle) =>
+              PlaywrightElementHandle.scoped(Effect.succeed(handle)),
+            ),
+          ),
+        ),
+      frameLocator: (selector) =>
+        PlaywrightFrameLocator.make(frame.frameLocator(selector)),
+      isVisible: (selector, options) =>
+        use((f) => f.isVisible(selector, options), {
+          method: "isVisible",
+          options,
+        }),
+      textContent: (selector, options) =>
+        use((f) => f.textContent(selector, options), {
+          method: "textContent",
+          options,
+        }),
+      click: (selector, options) =>
+        use((f) => f.click(selector, options), { method: "click", options }),
     });
   }
 }
@@ -0,0 +1,64 @@
+import { assert, layer } from "@effect/vitest";
+import { Effect, Option } from "effect";
+import { chromium } from "playwright-core";
+import { PlaywrightBrowser } from "./browser";
+import { PlaywrightEnvironment } from "./experimental";
+import { PlaywrightJSHandle } from "./handle";
+
+layer(PlaywrightEnvironment.layer(chromium))("PlaywrightHandle", (it) => {
+  it.scoped("JSHandle should expose properties and values", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.setContent("<div id='target'>Hello</div>");
+
+      const handle = yield* PlaywrightJSHandle.scoped(
+        page.use((p) =>
+          p.evaluateHandle(() => ({
+            name: "effect",
+            element: document.getElementById("target"),
+          })),
+        ),
+      );
+
+      const name = yield* handle.getProperty("name");
+      assert.strictEqual(yield* name.jsonValue, "effect");
+      assert.isTrue(Option.isNone(name.asElement()));
+
+      const properties = yield* handle.getProperties;
+      assert.deepStrictEqual([...properties.keys()], ["name", "element"]);
+
+      const element = (yield* handle.getProperty("element")).asElement();
+      assert.isTrue(Option.isSome(element));
+      if (Option.isSome(element)) {
+        assert.strictEqual(yield* element.value.textContent, "Hello");
+        assert.isTrue(yield* element.value.isVisible);
+      }
+
+      const length = yield* handle.evaluate(
+        (object, suffix) => `${object.name}${suffix}`.length,
+        "-playwright",
+      );
+      assert.strictEqual(length, 17);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("handles should be disposed when the scope closes", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.setContent("<button>Click</button>");
+
+      const handle = yield* Effect.scoped(
+        Effect.gen(function* () {
+          const button = yield* page.locator("button").elementHandle();
+          assert.isTrue(Option.isSome(button));
+          return Option.getOrThrow(button);
+        }),
+      );
+
+      const result = yield* handle.textContent.pipe(Effect.flip);
+      assert.strictEqual(result._tag, "PlaywrightError");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+});
@@ -0,0 +1,557 @@
+import { Context, Effect, Option, type Scope } from "effect";
+import type { ElementHandle, JSHandle } from "playwright-core";
+import type { PlaywrightError } from "./errors";
+import { PlaywrightFrame, type PlaywrightFrameService } from "./frame";
+import type { PageFunctionOn } from "./playwright-types";
+import { disposeAll, type UseCall, unwrapHandles, useHelper } from "./utils";
+
+/**
+ * A wrapper around a Playwright `JSHandle`, a reference to an in-page JavaScript object.
+ *
+ * Handles returned by this library are acquired in a `Scope` and disposed automatically
+ * when the scope closes.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export interface PlaywrightJSHandleService<T = unknown> {
+  /**
+   * The underlying Playwright JSHandle instance.
+   * @internal
+   */
+  readonly _raw: JSHandle<T>;
+  /**
+   * Evaluates a function with the handle as its first argument.
+   *
+   * @see {@link JSHandle.evaluate}
+   * @since 0.7.0
+   */
+  readonly evaluate: <R, Arg = void>(
+    pageFunction: PageFunctionOn<T, Arg, R>,
+    arg?: Arg,
+  ) => Effect.Effect<R, PlaywrightError>;
+  /**
+   * Evaluates a function with the handle as its first argument and returns the result
+   * as a handle, which is disposed when the scope closes.
+   *
+   * @see {@link JSHandle.evaluateHandle}
+   * @since 0.7.0
+   */
+  readonly evaluateHandle: <R, Arg = void>(
+    pageFunction: PageFunctionOn<T, Arg, R>,
+    arg?: Arg,
+  ) => Effect.Effect<
+    PlaywrightJSHandleService<R>,
+    PlaywrightError,
+    Scope.Scope
+  >;
+  /**
+   * Fetches a single property from the referenced object. The returned handle is disposed
+   * when the scope closes.
+   *
+   * @see {@link JSHandle.getProperty}
+   * @since 0.7.0
+   */
+  readonly getProperty: (
+    propertyName: string,
+  ) => Effect.Effect<PlaywrightJSHandleService, PlaywrightError, Scope.Scope>;
+  /**
+   * Returns a map of the own property names to property handles. The returned handles
+   * are disposed when the scope closes.
+   *
+   * @see {@link JSHandle.getProperties}
+   * @since 0.7.0
+   */
+  readonly getProperties: Effect.Effect<
+    ReadonlyMap<string, PlaywrightJSHandleService>,
+    PlaywrightError,
+    Scope.Scope
+  >;
+  /**
+   * Returns a JSON representation of the referenced object.
+   *
+   * @see {@link JSHandle.jsonValue}
+   * @since 0.7.0
+   */
+  readonly jsonValue: Effect.Effect<T, PlaywrightError>;
+  /**
+   * Returns the handle as an element handle if it references a DOM node. The element
+   * handle shares the lifetime of this handle.
+   *
+   * @see {@link JSHandle.asElement}
+   * @since 0.7.0
+   */
+  readonly asElement: () => Option.Option<PlaywrightElementHandleService>;
+  /**
+   * Disposes the handle before its scope closes.
+   *
+   * @see {@link JSHandle.dispose}
+   * @since 0.7.0
+   */
+  readonly dispose: Effect.Effect<void, PlaywrightError>;
+  /**
+   * A generic utility to execute any promise-based method on the underlying Playwright `JSHandle`.
+   * Can be used to access any JSHandle functionality not directly exposed by this service.
+   *
+   * @param f - A function that takes the Playwright `JSHandle` and returns a `Promise`.
+   * @returns An effect that wraps the promise and returns its result.
+   * @see {@link JSHandle}
+   * @since 0.7.0
+   */
+  readonly use: <A>(
+    f: (handle: JSHandle<T>) => Promise<A>,
+  ) => Effect.Effect<A, PlaywrightError>;
+}
+
+/**
+ * A wrapper around a Playwright `ElementHandle`, a reference to an in-page DOM element.
+ *
+ * Prefer {@link PlaywrightLocatorService} for interacting with elements; element handles
+ * are useful to keep a reference to one specific element.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export interface PlaywrightElementHandleService<
+  T extends Node = SVGElement | HTMLElement,
+> extends PlaywrightJSHandleService<T> {
+  /**
+   * The underlying Playwright ElementHandle instance.
+   * @internal
+   */
+  readonly _raw: ElementHandle<T>;
+  /**
+   * Returns the bounding box of the element, or `None` if it is not visible.
+   *
+   * @see {@link ElementHandle.boundingBox}
+   * @since 0.7.0
+   */
+  readonly boundingBox: Effect.Effect<
+    Option.Option<{ x: number; y: number; width: number; height: number }>,
+    PlaywrightError
+  >;
+  /**
+   * Checks the element.
+   *
+   * @see {@link ElementHandle.check}
+   * @since 0.7.0
+   */
+  readonly check: (
+    options?: Parameters<ElementHandle["check"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Clicks the element.
+   *
+   * @see {@link ElementHandle.click}
+   * @since 0.7.0
+   */
+  readonly click: (
+    options?: Parameters<ElementHandle["click"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Returns the content frame for `iframe` elements.
+   *
+   * @see {@link ElementHandle.contentFrame}
+   * @since 0.7.0
+   */
+  readonly contentFrame: Effect.Effect<
+    Option.Option<PlaywrightFrameService>,
+    PlaywrightError
+  >;
+  /**
+   * Double-clicks the element.
+   *
+   * @see {@link ElementHandle.dblclick}
+   * @since 0.7.0
+   */
+  readonly dblclick: (
+    options?: Parameters<ElementHandle["dblclick"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Fills an input element with the given value.
+   *
+   * @see {@link ElementHandle.fill}
+   * @since 0.7.0
+   */
+  readonly fill: (
+    value: string,
+    options?: Parameters<ElementHandle["fill"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Focuses the element.
+   *
+   * @see {@link ElementHandle.focus}
+   * @since 0.7.0
+   */
+  readonly focus: Effect.Effect<void, PlaywrightError>;
+  /**
+   * Returns the value of an attribute of the element.
+   *
+   * @see {@link ElementHandle.getAttribute}
+   * @since 0.7.0
+   */
+  readonly getAttribute: (
+    name: string,
+  ) => Effect.Effect<string | null, PlaywrightError>;
+  /**
+   * Hovers over the element.
+   *
+   * @see {@link ElementHandle.hover}
+   * @since 0.7.0
+   */
+  readonly hover: (
+    options?: Parameters<ElementHandle["hover"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.innerHTML}
+   * @since 0.7.0
+   */
+  readonly innerHTML: Effect.Effect<string, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.innerText}
+   * @since 0.7.0
+   */
+  readonly innerText: Effect.Effect<string, PlaywrightError>;
+  /**
+   * Returns the value of an `input`, `textarea` or `select` element.
+   *
+   * @see {@link ElementHandle.inputValue}
+   * @since 0.7.0
+   */
+  readonly inputValue: (
+    options?: Parameters<ElementHandle["inputValue"]>[0],
+  ) => Effect.Effect<string, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.isChecked}
+   * @since 0.7.0
+   */
+  readonly isChecked: Effect.Effect<boolean, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.isDisabled}
+   * @since 0.7.0
+   */
+  readonly isDisabled: Effect.Effect<boolean, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.isEditable}
+   * @since 0.7.0
+   */
+  readonly isEditable: Effect.Effect<boolean, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.isEnabled}
+   * @since 0.7.0
+   */
+  readonly isEnabled: Effect.Effect<boolean, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.isHidden}
+   * @since 0.7.0
+   */
+  readonly isHidden: Effect.Effect<boolean, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.isVisible}
+   * @since 0.7.0
+   */
+  readonly isVisible: Effect.Effect<boolean, PlaywrightError>;
+  /**
+   * Returns the frame containing the element.
+   *
+   * @see {@link ElementHandle.ownerFrame}
+   * @since 0.7.0
+   */
+  readonly ownerFrame: Effect.Effect<
+    Option.Option<PlaywrightFrameService>,
+    PlaywrightError
+  >;
+  /**
+   * Focuses the element and presses the given key.
+   *
+   * @see {@link ElementHandle.press}
+   * @since 0.7.0
+   */
+  readonly press: (
+    key: string,
+    options?: Parameters<ElementHandle["press"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Takes a screenshot of the element.
+   *
+   * @see {@link ElementHandle.screenshot}
+   * @since 0.7.0
+   */
+  readonly screenshot: (
+    options?: Parameters<ElementHandle["screenshot"]>[0],
+  ) => Effect.Effect<Buffer, PlaywrightError>;
+  /**
+   * Scrolls the element into view if it is not already visible.
+   *
+   * @see {@link ElementHandle.scrollIntoViewIfNeeded}
+   * @since 0.7.0
+   */
+  readonly scrollIntoViewIfNeeded: (
+    options?: Parameters<ElementHandle["scrollIntoViewIfNeeded"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Selects options in a `select` element.
+   *
+   * @see {@link ElementHandle.selectOption}
+   * @since 0.7.0
+   */
+  readonly selectOption: (
+    values: Parameters<ElementHandle["selectOption"]>[0],
+    options?: Parameters<ElementHandle["selectOption"]>[1],
+  ) => Effect.Effect<Array<string>, PlaywrightError>;
+  /**
+   * Sets the files of a file input element.
+   *
+   * @see {@link ElementHandle.setInputFiles}
+   * @since 0.7.0
+   */
+  readonly setInputFiles: (
+    files: Parameters<ElementHandle["setInputFiles"]>[0],
+    options?: Parameters<ElementHandle["setInputFiles"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * @see {@link ElementHandle.textContent}
+   * @since 0.7.0
+   */
+  readonly textContent: Effect.Effect<string | null, PlaywrightError>;
+  /**
+   * Unchecks the element.
+   *
+   * @see {@link ElementHandle.uncheck}
+   * @since 0.7.0
+   */
+  readonly uncheck: (
+    options?: Parameters<ElementHandle["uncheck"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Waits for the element to satisfy the given state.
+   *
+   * @see {@link ElementHandle.waitForElementState}
+   * @since 0.7.0
+   */
+  readonly waitForElementState: (
+    state: Parameters<ElementHandle["waitForElementState"]>[0],
+    options?: Parameters<ElementHandle["waitForElementState"]>[1],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * A generic utility to execute any promise-based method on the underlying Playwright `ElementHandle`.
+   * Can be used to access any ElementHandle functionality not directly exposed by this service.
+   *
+   * @param f - A function that takes the Playwright `ElementHandle` and returns a `Promise`.
+   * @returns An effect that wraps the promise and returns its result.
+   * @see {@link ElementHandle}
+   * @since 0.7.0
+   */
+  readonly use: <A>(
+    f: (handle: ElementHandle<T>) => Promise<A>,
+  ) => Effect.Effect<A, PlaywrightError>;
+}
+
+const jsHandleMembers = <T, H extends JSHandle<T>>(
+  handle: H,
+  use: <A>(
+    f: (handle: H) => Promise<A>,
+    call: UseCall,
+  ) => Effect.Effect<A, PlaywrightError>,
+) => ({
+  evaluate: <R, Arg>(f: PageFunctionOn<T, Arg, R>, arg?: Arg) =>
+    use(
+      (h) =>
+        h.evaluate<R, Arg, T>(
+          f as unknown as Parameters<typeof h.evaluate<R, Arg, T>>[0],
+          unwrapHandles(arg) as Arg,
+        ),
+      { method: "evaluate" },
+    ),
+  evaluateHandle: <R, Arg>(f: PageFunctionOn<T, Arg, R>, arg?: Arg) =>
+    PlaywrightJSHandle.scoped(
+      use(
+        (h) =>
+          h.evaluateHandle<R, Arg, T>(
+            f as unknown as Parameters<typeof h.evaluateHandle<R, Arg, T>>[0],
+            unwrapHandles(arg) as Arg,
+          ) as Promise<JSHandle<R>>,
+        { method: "evaluateHandle" },
+      ),
+    ),
+  getProperty: (propertyName: string) =>
+    PlaywrightJSHandle.scoped(
+      use((h) => h.getProperty(propertyName), { method: "getProperty" }),
+    ),
+  getProperties: Effect.acquireRelease(
+    use((h) => h.getProperties(), { method: "getProperties" }),
+    (properties) => disposeAll(properties.values()),
+  ).pipe(
+    Effect.map(
+      (properties): ReadonlyMap<string, PlaywrightJSHandleService> =>
+        new Map(
+          Array.from(properties, ([name, property]) => [
+            name,
+            PlaywrightJSHandle.make(property),
+          ]),
+        ),
+    ),
+  ),
+  jsonValue: use((h) => h.jsonValue() as Promise<T>, { method: "jsonValue" }),
+  asElement: () =>
+    Option.fromNullable(handle.asElement() as ElementHandle | null).pipe(
+      Option.map((element) =>
+        PlaywrightElementHandle.make(
+          element as ElementHandle<SVGElement | HTMLElement>,
+        ),
+      ),
+    ),
+  dispose: use((h) => h.dispose(), { method: "dispose" }),
+});
+
+/**
+ * @category tag
+ * @since 0.7.0
+ */
+export class PlaywrightJSHandle extends Context.Tag(
+  "effect-playwright/PlaywrightJSHandle",
+)<PlaywrightJSHandle, PlaywrightJSHandleService>() {
+  /**
+   * Creates a `PlaywrightJSHandle` from a Playwright `JSHandle` instance. The handle is
+   * not disposed automatically, use {@link PlaywrightJSHandle.scoped} for that.
+   *
+   * @param handle - The Playwright `JSHandle` instance to wrap.
+   * @category constructor
+   * @since 0.7.0
+   */
+  static make<T>(handle: JSHandle<T>): PlaywrightJSHandleService<T> {
+    const use = useHelper(handle, { name: "jsHandle" });
+
+    return {
+      ...jsHandleMembers<T, JSHandle<T>>(handle, use),
+      use,
+      _raw: handle,
+    };
+  }
+
+  /**
+   * Acquires a handle in the current scope and disposes it when the scope closes.
+   *
+   * @example
+   * ```ts
+   * const handle = yield* PlaywrightJSHandle.scoped(
+   *   page.use((p) => p.evaluateHandle(() => window)),
+   * );
+   * ```
+   *
+   * @param acquire - An effect that creates the Playwright `JSHandle`.
+   * @since 0.7.0
+   */
+  static scoped<T, E, R>(
+    acquire: Effect.Effect<JSHandle<T>, E, R>,
+  ): Effect.Effect<PlaywrightJSHandleService<T>, E, R | Scope.Scope> {
+    return Effect.acquireRelease(acquire, (handle) =>
+      disposeAll([handle]),
+    ).pipe(Effect.map((handle) => PlaywrightJSHandle.make(handle)));
+  }
+}
+
+/**
+ * @category tag
+ * @since 0.7.0
+ */
+export class PlaywrightElementHandle extends Context.Tag(
+  "effect-playwright/PlaywrightElementHandle",
+)<PlaywrightElementHandle, PlaywrightElementHandleService>() {
+  /**
+   * Creates a `PlaywrightElementHandle` from a Playwright `ElementHandle` instance. The
+   * handle is not disposed automatically, use {@link PlaywrightElementHandle.scoped} for that.
+   *
+   * @param handle - The Playwright `ElementHandle` instance to wrap.
+   * @category constructor
+   * @since 0.7.0
+   */
+  static make<T extends Node>(
+    handle: ElementHandle<T>,
+  ): PlaywrightElementHandleService<T> {
+    const use = useHelper(handle, { name: "elementHandle" });
+    const frame = (
+      f: Promise<Parameters<typeof PlaywrightFrame.make>[0] | null>,
+    ) =>
+      f.then((frame) =>
+        Option.fromNullable(frame).pipe(Option.map(PlaywrightFrame.make)),
+      );
+
+    return {
+      ...jsHandleMembers<T, ElementHandle<T>>(handle, use),
+      boundingBox: use((h) => h.boundingBox(), { method: "boundingBox" }).pipe(
+        Effect.map(Option.fromNullable),
+      ),
+      check: (options) =>
+        use((h) => h.check(options), { method: "check", options }),
+      click: (options) =>
+        use((h) => h.click(options), { method: "click", options }),
+      contentFrame: use((h) => frame(h.contentFrame()), {
+        method: "contentFrame",
+      }),
+      dblclick: (options) =>
+        use((h) => h.dblclick(options), { method: "dblclick", options }),
+      fill: (value, options) =>
+        use((h) => h.fill(value, options), { method: "fill", options }),
+      focus: use((h) => h.focus(), { method: "focus" }),
+      getAttribute: (name) =>
+        use((h) => h.getAttribute(name), { method: "getAttribute" }),
+      hover: (options) =>
+        use((h) => h.hover(options), { method: "hover", options }),
+      innerHTML: use((h) => h.innerHTML(), { method: "innerHTML" }),
+      innerText: use((h) => h.innerText(), { method: "innerText" }),
+      inputValue: (options) =>
+        use((h) => h.inputValue(options), { method: "inputValue", options }),
+      isChecked: use((h) => h.isChecked(), { method: "isChecked" }),
+      isDisabled: use((h) => h.isDisabled(), { method: "isDisabled" }),
+      isEditable: use((h) => h.isEditable(), { method: "isEditable" }),
+      isEnabled: use((h) => h.isEnabled(), { method: "isEnabled" }),
+      isHidden: use((h) => h.isHidden(), { method: "isHidden" }),
+      isVisible: use((h) => h.isVisible(), { method: "isVisible" }),
+      ownerFrame: use((h) => frame(h.ownerFrame()), { method: "ownerFrame" }),
+      press: (key, options) =>
+        use((h) => h.press(key, options), { method: "press", options }),
+      screenshot: (options) =>
+        use((h) => h.screenshot(options), { method: "screenshot", options }),
+      scrollIntoViewIfNeeded: (options) =>
+        use((h) => h.scrollIntoViewIfNeeded(options), {
+          method: "scrollIntoViewIfNeeded",
+          options,
+        }),
+      selectOption: (values, options) =>
+        use((h) => h.selectOption(values, options), {
+          method: "selectOption",
+          options,
+        }),
+      setInputFiles: (files, options) =>
+        use((h) => h.setInputFiles(files, options), {
+          method: "setInputFiles",
+          options,
+        }),
+      textContent: use((h) => h.textContent(), { method: "textContent" }),
+      uncheck: (options) =>
+        use((h) => h.uncheck(options), { method: "uncheck", options }),
+      waitForElementState: (state, options) =>
+        use((h) => h.waitForElementState(state, options), {
+          method: "waitForElementState",
+          options,
+        }),
+      use,
+      _raw: handle,
+    };
+  }
+
+  /**
+   * Acquires an element handle in the current scope and disposes it when the scope closes.
+   *
+   * @param acquire - An effect that creates the Playwright `ElementHandle`.
+   * @since 0.7.0
+   */
+  static scoped<T extends Node, E, R>(
+    acquire: Effect.Effect<ElementHandle<T>, E, R>,
+  ): Effect.Effect<PlaywrightElementHandleService<T>, E, R | Scope.Scope> {
+    return Effect.acquireRelease(acquire, (handle) =>
+      disposeAll([handle]),
+    ).pipe(Effect.map((handle) => PlaywrightElementHandle.make(handle)));
+  }
+}
@@ -0,0 +1,87 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { assert, layer } from "@effect/vitest";
+import { Effect } from "effect";
+import { chromium } from "playwright-core";
+import { PlaywrightBrowser } from "./browser";
+import { PlaywrightEnvironment } from "./experimental";
+import * as HarReplay from "./har-replay";
+
+const writeHar = (url: string, html: string) => {
+  const path = join(mkdtempSync(join(tmpdir(), "har-replay-")), "fixture.har");
+  const har = {
+    log: {
+      version: "1.2",
+      creator: { name: "effect-playwright", version: "0.0.0" },
+      pages: [],
+      entries: [
+        {
+          startedDateTime: new Date().toISOString(),
+          time: 0,
+          request: {
+            method: "GET",
+            url,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: [],
+            queryString: [],
+            headersSize: -1,
+            bodySize: 0,
+          },
+          response: {
+            status: 200,
+            statusText: "OK",
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: [{ name: "Content-Type", value: "text/html" }],
+            content: { size: html.length, mimeType: "text/html", text: html },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: html.length,
+          },
+          cache: {},
+          timings: { send: 0, wait: 0, receive: 0 },
+        },
+      ],
+    },
+  };
+  writeFileSync(path, JSON.stringify(har));
+  return path;
+};
+
+layer(PlaywrightEnvironment.layer(chromium))("HarReplay", (it) => {
+  it.scoped("routeFromHAR should serve requests from a HAR file", () =>
+    Effect.gen(function* () {
+      const har = writeHar("http://har.test/", "<title>From HAR</title>");
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.routeFromHAR(har);
+      yield* page.goto("http://har.test/");
+
+      assert.strictEqual(yield* page.title, "From HAR");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("layer should install HAR routing on new contexts", () => {
+    const har = writeHar("http://har.test/", "<title>Replayed</title>");
+
+    return Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const context = yield* browser.newContext();
+      const page = yield* context.newPage;
+
+      yield* page.goto("http://har.test/");
+      assert.strictEqual(yield* page.title, "Replayed");
+
+      const missing = yield* page
+        .goto("http://har.test/missing")
+        .pipe(Effect.flip);
+      assert.strictEqual(missing._tag, "PlaywrightError");
+    }).pipe(
+      Effect.provide(HarReplay.layer(har, { notFound: "abort" })),
+      PlaywrightEnvironment.withBrowser,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { Effect, Layer } from "effect";
+import { PlaywrightBrowser } from "./browser";
+
+/**
+ * Options for {@link PlaywrightPageService.routeFromHAR} and
+ * {@link PlaywrightBrowserContextService.routeFromHAR}.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export interface RouteFromHAROptions {
+  /**
+   * - `"abort"` aborts requests that are not found in the HAR file (default).
+   * - `"fallback"` passes them to the next route handler, or to the network.
+   */
+  readonly notFound?: "abort" | "fallback";
+  /**
+   * If set, records actual network traffic into the HAR file instead of serving from it.
+   * The file is written when the browser context is closed.
+   */
+  readonly update?: boolean;
+  /**
+   * Whether recorded response bodies are embedded in the HAR file or stored as
+   * separate files next to it. Only used together with `update`.
+   */
+  readonly updateContent?: "embed" | "attach";
+  /**
+   * When set to `"minimal"`, only records information necessary for routing from HAR.
+   * Only used together with `update`. Defaults to `"minimal"`.
+   */
+  readonly updateMode?: "full" | "minimal";
+  /**
+   * Only requests with a URL matching this pattern are served from the HAR file.
+   */
+  readonly url?: string | RegExp;
+}
+
+/**
+ * Wraps the `PlaywrightBrowser` service so that every browser context created with
+ * `newContext` and every page created with `newPage` serves network requests from
+ * the given HAR file.
+ *
+ * With `update: true` the layer records traffic instead, which makes it easy to
+ * capture fixtures once and replay them offline afterwards.
+ *
+ * The HAR routes stay active for the lifetime of each browser context or page. Contexts
+ * created with `newContext` are closed together with their scope, whereas pages
+ * created with `newPage` must be closed explicitly.
+ *
+ * @example
+ * ```ts
+ * import { HarReplay, PlaywrightBrowser } from "effect-playwright";
+ * import { PlaywrightEnvironment } from "effect-playwright/experimental";
+ *
+ * const program = Effect.gen(function* () {
+ *   const browser = yield* PlaywrightBrowser;
+ *   const context = yield* browser.newContext();
+ *   const page = yield* context.newPage;
+ *
+ *   // served from fixtures/staging.har
+ *   yield* page.goto("https://staging.example.com");
+ * }).pipe(
+ *   Effect.provide(HarReplay.layer("fixtures/staging.har", { notFound: "abort" })),
+ *   PlaywrightEnvironment.withBrowser,
+ * );
+ * ```
+ *
+ * @param har - Path to the HAR file.
+ * @param options - Options passed to `routeFromHAR`.
+ *
+ * @category layer
+ * @since 0.7.0
+ */
+export const layer = (
+  har: string,
+  options?: RouteFromHAROptions,
+): Layer.Layer<PlaywrightBrowser, never, PlaywrightBrowser> =>
+  Layer.effect(
+    PlaywrightBrowser,
+    Effect.map(PlaywrightBrowser, (browser) =>
+      PlaywrightBrowser.of({
+        ...browser,
+        newContext: (contextOptions) =>
+          browser
+            .newContext(contextOptions)
+            .pipe(Effect.tap((context) => context.routeFromHAR(har, options))),
+        newPage: (pageOptions) =>
+          browser
+            .newPage(pageOptions)
+            .pipe(Effect.tap((page) => page.routeFromHAR(har, options))),
+      }),
+    ),
+  );
@@ -14,7 +14,9 @@
  */
 
 export { chromium, firefox, webkit } from "playwright-core";
+export * from "./api-request";
 export * from "./browser";
+export * as BrowserConsole from "./browser-console";
 export {
   PlaywrightBrowserContext,
   type PlaywrightBrowserContextService,
@@ -23,12 +25,29 @@ export * from "./clock";
 export * from "./common";
 export * from "./credentials";
 export type { PlaywrightErrorReason } from "./errors";
-export { PlaywrightError } from "./errors";
+export {
+  AssertionError,
+  EvaluateDecodeError,
+  PageConsoleError,
+  PageCrashedError,
+  PageRequestFailedError,
+  PlaywrightError,
+  ResponseDecodeError,
+  SoftAssertionErrors,
+  UncaughtPageError,
+} from "./errors";
+export type { ExpectOptions } from "./expect";
+export * as PlaywrightExpect from "./expect";
 export * from "./frame";
+export * from "./handle";
+export type { RouteFromHAROptions } from "./har-replay";
+export * as HarReplay from "./har-replay";
 export * from "./keyboard";
 export * from "./locator";
+export * as PlaywrightMetrics from "./metrics";
 export * from "./mouse";
 export * from "./page";
 export * from "./playwright";
+export * from "./telemetry";
 export * from "./touchscreen";
 export * from "./web-storage";
@@ -70,14 +70,17 @@ export class PlaywrightKeyboard extends Context.Tag(
    * @since 0.1.0
    */
   static make(keyboard: Keyboard): PlaywrightKeyboardService {
-    const use = useHelper(keyboard);
+    const use = useHelper(keyboard, { name: "keyboard" });
 
     return PlaywrightKeyboard.of({
-      down: (key) => use((k) => k.down(key)),
-      insertText: (text) => use((k) => k.insertText(text)),
-      press: (key, options) => use((k) => k.press(key, options)),
-      type: (text, options) => use((k) => k.type(text, options)),
-      up: (key) => use((k) => k.up(key)),
+      down: (key) => use((k) => k.down(key), { method: "down" }),
+      insertText: (text) =>
+        use((k) => k.insertText(text), { method: "insertText" }),
+      press: (key, options) =>
+        use((k) => k.press(key, options), { method: "press", options }),
+      type: (text, options) =>
+        use((k) => k.type(text, options), { method: "type", options }),
+      up: (key) => use((k) => k.up(key), { method: "up" }),
     });
   }
 }
@@ -113,7 +113,7 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightLocator", (it) => {
         (value: string) => `handled:${value}`,
         { exposeFunctions: true },
       );
-      const handled = yield* Effect.promise(() => handle.jsonValue());
+      const handled = yield* handle.jsonValue;
       assert(handled === "handled:hello");
     }).pipe(PlaywrightEnvironment.withBrowser),
   );
@@ -323,21 +323,22 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightLocator", (it) => {
       const handle = yield* buttons.first().evaluateHandle((el) => el);
       const handleRes = yield* page.evaluate((el) => el.id, handle);
       assert(handleRes === "btn-1");
+      const nestedRes = yield* page.evaluate(
+        ({ elements }) => elements.map((el) => el.id),
+        { elements: [handle] },
+      );
+      assert.deepEqual(nestedRes, ["btn-1"]);
 
       // elementHandle
       const elHandleOption = yield* buttons.first().elementHandle();
       assert(Option.isSome(elHandleOption));
-      const elHandleRes = yield* Effect.promise(() =>
-        elHandleOption.value.evaluate((el) => el.id),
-      );
+      const elHandleRes = yield* elHandleOption.value.evaluate((el) => el.id);
       assert(elHandleRes === "btn-1");
 
       // elementHandles
       const handles = yield* buttons.elementHandles();
       assert(handles.length === 2);
-      const firstHandleId = yield* Effect.promise(() =>
-        handles[0].evaluate((el) => el.id),
-      );
+      const firstHandleId = yield* handles[0].evaluate((el) => el.id);
       assert(firstHandleId === "btn-1");
 
       // use
@@ -1,13 +1,28 @@
-import { Array, Context, Effect, Match, Option, Predicate } from "effect";
+import {
+  Array,
+  Context,
+  Effect,
+  Match,
+  Option,
+  Predicate,
+  type Schema,
+  type Scope,
+} from "effect";
 import type { ElementHandle, JSHandle, Locator } from "playwright-core";
-import type { PlaywrightError } from "./errors";
+import { EvaluateDecodeError, type PlaywrightError } from "./errors";
 import {
   PlaywrightFrameLocator,
   type PlaywrightFrameLocatorService,
 } from "./frame-locator";
+import {
+  PlaywrightElementHandle,
+  type PlaywrightElementHandleService,
+  PlaywrightJSHandle,
+  type PlaywrightJSHandleService,
+} from "./handle";
 import { PlaywrightPage } from "./page";
 import type { Unboxed } from "./playwright-types";
-import { useHelper } from "./utils";
+import { decodeWith, disposeAll, unwrapHandles, useHelper } from "./utils";
 
 /**
  * Interface for a Playwright locator.
@@ -383,6 +398,32 @@ export interface PlaywrightLocatorService {
     arg?: Arg,
     options?: Parameters<Locator["evaluate"]>[2],
   ) => Effect.Effect<R, PlaywrightError>;
+  /**
+   * Like `evaluate`, but decodes the value returned from the browser with the given
+   * schema. Fails with an {@link EvaluateDecodeError} if it does not match.
+   *
+   * @example
+   * ```ts
+   * const price = yield* page
+   *   .locator(".price")
+   *   .evaluateSchema(Schema.NumberFromString, (element) => element.dataset.amount);
+   * ```
+   *
+   * @see {@link Locator.evaluate}
+   * @since 0.7.0
+   */
+  readonly evaluateSchema: <
+    A,
+    I,
+    R,
+    Arg = void,
+    E extends SVGElement | HTMLElement = SVGElement | HTMLElement,
+  >(
+    schema: Schema.Schema<A, I, R>,
+    pageFunction: (element: E, arg: Unboxed<Arg>) => unknown,
+    arg?: Arg,
+    options?: Parameters<Locator["evaluate"]>[2],
+  ) => Effect.Effect<A, PlaywrightError | EvaluateDecodeError, R>;
   /**
    * Highlights the corresponding element(s) on the screen.
    *
@@ -450,7 +491,8 @@ export interface PlaywrightLocatorService {
     arg?: Arg,
   ) => Effect.Effect<R, PlaywrightError>;
   /**
-   * Evaluates a function on the matched element and returns the result as a handle.
+   * Evaluates a function on the matched element and returns the result as a handle,
+   * which is disposed when the scope closes.
    *
    * @see {@link Locator.evaluateHandle}
    * @since 0.3.0
@@ -463,9 +505,14 @@ export interface PlaywrightLocatorService {
     pageFunction: (element: E, arg: Unboxed<Arg>) => R | Promise<R>,
     arg?: Arg,
     options?: Parameters<Locator["evaluateHandle"]>[2],
-  ) => Effect.Effect<JSHandle<R>, PlaywrightError>;
+  ) => Effect.Effect<
+    PlaywrightJSHandleService<R>,
+    PlaywrightError,
+    Scope.Scope
+  >;
   /**
-   * Resolves given locator to the first matching DOM element.
+   * Resolves given locator to the first matching DOM element. The handle is disposed
+   * when the scope closes.
    *
    * @see {@link Locator.elementHandle}
    * @since 0.3.0
@@ -473,18 +520,21 @@ export interface PlaywrightLocatorService {
   readonly elementHandle: (
     options?: Parameters<Locator["elementHandle"]>[0],
   ) => Effect.Effect<
-    Option.Option<ElementHandle<SVGElement | HTMLElement>>,
-    PlaywrightError
+    Option.Option<PlaywrightElementHandleService>,
+    PlaywrightError,
+    Scope.Scope
   >;
   /**
-   * Resolves given locator to all matching DOM elements.
+   * Resolves given locator to all matching DOM elements. The handles are disposed
+   * when the scope closes.
    *
    * @see {@link Locator.elementHandles}
    * @since 0.3.0
    */
   readonly elementHandles: () => Effect.Effect<
-    ReadonlyArray<ElementHandle<SVGElement | HTMLElement>>,
-    PlaywrightError
+    ReadonlyArray<PlaywrightElementHandleService>,
+    PlaywrightError,
+    Scope.Scope
   >;
   /**
    * Returns an array of locators pointing to the matched elements.
@@ -739,7 +789,11 @@ export class PlaywrightLocator extends Context.Tag(
    * @category constructor
    */
   static make(locator: Locator): typeof PlaywrightLocator.Service {
-    const use = useHelper(locator);
+    const use = useHelper(locator, {
+      name: "locator",
+      target: (l) => l.toString(),
+      targetKind: "selector",
+    });
     const unwrap = Match.type<Locator | PlaywrightLocatorService>().pipe(
       Match.when(Predicate.hasProperty("_raw"), (l) => l._raw),
       Match.orElse((l) => l),
@@ -747,31 +801,50 @@ export class PlaywrightLocator extends Context.Tag(
 
     return PlaywrightLocator.of({
       _raw: locator,
-      click: (options) => use((l) => l.click(options)),
-      check: (options) => use((l) => l.check(options)),
-      fill: (value, options) => use((l) => l.fill(value, options)),
+      click: (options) =>
+        use((l) => l.click(options), { method: "click", options }),
+      check: (options) =>
+        use((l) => l.check(options), { method: "check", options }),
+      fill: (value, options) =>
+        use((l) => l.fill(value, options), { method: "fill", options }),
       getAttribute: (name, options) =>
-        use((l) => l.getAttribute(name, options)),
-      innerText: (options) => use((l) => l.innerText(options)),
-      innerHTML: (options) => use((l) => l.innerHTML(options)),
-      inputValue: (options) => use((l) => l.inputValue(options)),
-      textContent: (options) => use((l) => l.textContent(options)),
-      allInnerTexts: () => use((l) => l.allInnerTexts()),
-      allTextContents: () => use((l) => l.allTextContents()),
-      ariaSnapshot: (options) => use((l) => l.ariaSnapshot(options)),
+        use((l) => l.getAttribute(name, options), {
+          method: "getAttribute",
+          options,
+        }),
+      innerText: (options) =>
+        use((l) => l.innerText(options), { method: "innerText", options }),
+      innerHTML: (options) =>
+        use((l) => l.innerHTML(options), { method: "innerHTML", options }),
+      inputValue: (options) =>
+        use((l) => l.inputValue(options), { method: "inputValue", options }),
+      textContent: (options) =>
+        use((l) => l.textContent(options), { method: "textContent", options }),
+      allInnerTexts: () =>
+        use((l) => l.allInnerTexts(), { method: "allInnerTexts" }),
+      allTextContents: () =>
+        use((l) => l.allTextContents(), { method: "allTextContents" }),
+      ariaSnapshot: (options) =>
+        use((l) => l.ariaSnapshot(options), {
+          method: "ariaSnapshot",
+          options,
+        }),
       boundingBox: (options) =>
-        use((l) => l.boundingBox(options)).pipe(
-          Effect.map(Option.fromNullable),
-        ),
+        use((l) => l.boundingBox(options), {
+          method: "boundingBox",
+          options,
+        }).pipe(Effect.map(Option.fromNullable)),
       describe: (description) =>
         PlaywrightLocator.make(locator.describe(description)),
       description: () => Option.fromNullable(locator.description()),
-      count: use((l) => l.count()),
+      count: use((l) => l.count(), { method: "count" }),
       first: () => PlaywrightLocator.make(locator.first()),
       last: () => PlaywrightLocator.make(locator.last()),
       nth: (index: number) => PlaywrightLocator.make(locator.nth(index)),
       all: () =>
-        use((l) => l.all()).pipe(Effect.map(Array.map(PlaywrightLocator.make))),
+        use((l) => l.all(), { method: "all" }).pipe(
+          Effect.map(Array.map(PlaywrightLocator.make)),
+        ),
       and: (locatorOrService) =>
         PlaywrightLocator.make(locator.and(unwrap(locatorOrService))),
       contentFrame: () => PlaywrightFrameLocator.make(locator.contentFrame()),
@@ -801,13 +874,20 @@ export class PlaywrightLocator extends Context.Tag(
         PlaywrightLocator.make(locator.getByTitle(text, options)),
       getByTestId: (testId) =>
         PlaywrightLocator.make(locator.getByTestId(testId)),
-      isChecked: (options) => use((l) => l.isChecked(options)),
-      isDisabled: (options) => use((l) => l.isDisabled(options)),
-      isEditable: (options) => use((l) => l.isEditable(options)),
-      isEnabled: (options) => use((l) => l.isEnabled(options)),
-      isHidden: (options) => use((l) => l.isHidden(options)),
-      isVisible: (options) => use((l) => l.isVisible(options)),
-      waitFor: (options) => use((l) => l.waitFor(options)),
+      isChecked: (options) =>
+        use((l) => l.isChecked(options), { method: "isChecked", options }),
+      isDisabled: (options) =>
+        use((l) => l.isDisabled(options), { method: "isDisabled", options }),
+      isEditable: (options) =>
+        use((l) => l.isEditable(options), { method: "isEditable", options }),
+      isEnabled: (options) =>
+        use((l) => l.isEnabled(options), { method: "isEnabled", options }),
+      isHidden: (options) =>
+        use((l) => l.isHidden(options), { method: "isHidden", options }),
+      isVisible: (options) =>
+        use((l) => l.isVisible(options), { method: "isVisible", options }),
+      waitFor: (options) =>
+        use((l) => l.waitFor(options), { method: "waitFor", options }),
       waitForFunction: <
         R,
         Arg = void,
@@ -817,14 +897,16 @@ export class PlaywrightLocator extends Context.Tag(
         arg?: Arg,
         options?: Parameters<Locator["waitForFunction"]>[2],
       ) =>
-        use((l) =>
-          l.waitForFunction<Arg, E>(
-            pageFunction as unknown as Parameters<
-              typeof l.waitForFunction<Arg, E>
-            >[0],
-            arg as Arg,
-            options,
-          ),
+        use(
+          (l) =>
+            l.waitForFunction<Arg, E>(
+              pageFunction as unknown as Parameters<
+                typeof l.waitForFunction<Arg, E>
+              >[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "waitForFunction", options },
         ),
       evaluate: <
         R,
@@ -835,13 +917,49 @@ export class PlaywrightLocator extends Context.Tag(
         arg?: Arg,
         options?: Parameters<Locator["evaluate"]>[2],
       ) =>
-        use((l) =>
-          l.evaluate<R, Arg, E>(
-            pageFunction as unknown as Parameters<
-              typeof l.evaluate<R, Arg, E>
-            >[0],
-            arg as Arg,
-            options,
+        use(
+          (l) =>
+            l.evaluate<R, Arg, E>(
+              pageFunction as unknown as Parameters<
+                typeof l.evaluate<R, Arg, E>
+              >[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "evaluate", options },
+        ),
+      evaluateSchema: <
+        A,
+        I,
+        R,
+        Arg = void,
+        E extends SVGElement | HTMLElement = SVGElement | HTMLElement,
+      >(
+        schema: Schema.Schema<A, I, R>,
+        pageFunction: (element: E, arg: Unboxed<Arg>) => unknown,
+        arg?: Arg,
+        options?: Parameters<Locator["evaluate"]>[2],
+      ) =>
+        use(
+          (l) =>
+            l.evaluate<unknown, Arg, E>(
+              pageFunction as unknown as Parameters<
+                typeof l.evaluate<unknown, Arg, E>
+              >[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "evaluate", options },
+        ).pipe(
+          Effect.flatMap(
+            decodeWith(
+              schema,
+              (cause) =>
+                new EvaluateDecodeError({
+                  operation: "locator.evaluate",
+                  cause,
+                }),
+            ),
           ),
         ),
       evaluateAll: <
@@ -852,13 +970,15 @@ export class PlaywrightLocator extends Context.Tag(
         pageFunction: (elements: E[], arg: Unboxed<Arg>) => R | Promise<R>,
         arg?: Arg,
       ) =>
-        use((l) =>
-          l.evaluateAll<R, Arg, E>(
-            pageFunction as unknown as Parameters<
-              typeof l.evaluateAll<R, Arg, E>
-            >[0],
-            arg as Arg,
-          ),
+        use(
+          (l) =>
+            l.evaluateAll<R, Arg, E>(
+              pageFunction as unknown as Parameters<
+                typeof l.evaluateAll<R, Arg, E>
+              >[0],
+              unwrapHandles(arg) as Arg,
+            ),
+          { method: "evaluateAll" },
         ),
       evaluateHandle: <
         R,
@@ -869,54 +989,107 @@ export class PlaywrightLocator extends Context.Tag(
         arg?: Arg,
         options?: Parameters<Locator["evaluateHandle"]>[2],
       ) =>
-        use((l) =>
-          l.evaluateHandle<R, Arg, E>(
-            pageFunction as unknown as Parameters<
-              typeof l.evaluateHandle<R, Arg, E>
-            >[0],
-            arg as Arg,
-            options,
+        PlaywrightJSHandle.scoped(
+          use(
+            (l) =>
+              l.evaluateHandle<R, Arg, E>(
+                pageFunction as unknown as Parameters<
+                  typeof l.evaluateHandle<R, Arg, E>
+                >[0],
+                unwrapHandles(arg) as Arg,
+                options,
+              ) as Promise<JSHandle<R>>,
+            { method: "evaluateHandle", options },
           ),
         ),
       elementHandle: (options) =>
-        use((l) => l.elementHandle(options)).pipe(
+        use((l) => l.elementHandle(options), {
+          method: "elementHandle",
+          options,
+        }).pipe(
           Effect.map(Option.fromNullable),
+          Effect.flatMap(
+            Effect.transposeMapOption((handle) =>
+              PlaywrightElementHandle.scoped(Effect.succeed(handle)),
+            ),
+          ),
         ),
       elementHandles: () =>
-        use(
-          (l) =>
-            l.elementHandles() as Promise<
-              Array<ElementHandle<SVGElement | HTMLElement>>
-            >,
+        Effect.acquireRelease(
+          use(
+            (l) =>
+              l.elementHandles() as Promise<
+                Array<ElementHandle<SVGElement | HTMLElement>>
+              >,
+            { method: "elementHandles" },
+          ),
+          disposeAll,
+        ).pipe(
+          Effect.map((handles) => handles.map(PlaywrightElementHandle.make)),
         ),
-      highlight: (options) => use((l) => l.highlight(options)),
-      hideHighlight: use((l) => l.hideHighlight()),
-      drop: (data, options) => use((l) => l.drop(data, options)),
-      normalize: () => use((l) => l.normalize().then(PlaywrightLocator.make)),
-      screenshot: (options) => use((l) => l.screenshot(options)),
-      blur: (options) => use((l) => l.blur(options)),
-      clear: (options) => use((l) => l.clear(options)),
-      dblclick: (options) => use((l) => l.dblclick(options)),
+      highlight: (options) =>
+        use((l) => l.highlight(options), { method: "highlight", options }),
+      hideHighlight: use((l) => l.hideHighlight(), { method: "hideHighlight" }),
+      drop: (data, options) =>
+        use((l) => l.drop(data, options), { method: "drop", options }),
+      normalize: () =>
+        use((l) => l.normalize().then(PlaywrightLocator.make), {
+          method: "normalize",
+        }),
+      screenshot: (options) =>
+        use((l) => l.screenshot(options), { method: "screenshot", options }),
+      blur: (options) =>
+        use((l) => l.blur(options), { method: "blur", options }),
+      clear: (options) =>
+        use((l) => l.clear(options), { method: "clear", options }),
+      dblclick: (options) =>
+        use((l) => l.dblclick(options), { method: "dblclick", options }),
       dispatchEvent: (type, eventInit, options) =>
-        use((l) => l.dispatchEvent(type, eventInit, options)),
+        use((l) => l.dispatchEvent(type, eventInit, options), {
+          method: "dispatchEvent",
+          options,
+        }),
       dragTo: (target, options) =>
-        use((l) => l.dragTo(unwrap(target), options)),
-      focus: (options) => use((l) => l.focus(options)),
-      hover: (options) => use((l) => l.hover(options)),
-      press: (key, options) => use((l) => l.press(key, options)),
+        use((l) => l.dragTo(unwrap(target), options), {
+          method: "dragTo",
+          options,
+        }),
+      focus: (options) =>
+        use((l) => l.focus(options), { method: "focus", options }),
+      hover: (options) =>
+        use((l) => l.hover(options), { method: "hover", options }),
+      press: (key, options) =>
+        use((l) => l.press(key, options), { method: "press", options }),
       pressSequentially: (text, options) =>
-        use((l) => l.pressSequentially(text, options)),
+        use((l) => l.pressSequentially(text, options), {
+          method: "pressSequentially",
+          options,
+        }),
       scrollIntoViewIfNeeded: (options) =>
-        use((l) => l.scrollIntoViewIfNeeded(options)),
+        use((l) => l.scrollIntoViewIfNeeded(options), {
+          method: "scrollIntoViewIfNeeded",
+          options,
+        }),
       selectOption: (values, options) =>
-        use((l) => l.selectOption(values, options)),
-      selectText: (options) => use((l) => l.selectText(options)),
+        use((l) => l.selectOption(values, options), {
+          method: "selectOption",
+          options,
+        }),
+      selectText: (options) =>
+        use((l) => l.selectText(options), { method: "selectText", options }),
       setChecked: (checked, options) =>
-        use((l) => l.setChecked(checked, options)),
+        use((l) => l.setChecked(checked, options), {
+          method: "setChecked",
+          options,
+        }),
       setInputFiles: (files, options) =>
-        use((l) => l.setInputFiles(files, options)),
-      tap: (options) => use((l) => l.tap(options)),
-      uncheck: (options) => use((l) => l.uncheck(options)),
+        use((l) => l.setInputFiles(files, options), {
+          method: "setInputFiles",
+          options,
+        }),
+      tap: (options) => use((l) => l.tap(options), { method: "tap", options }),
+      uncheck: (options) =>
+        use((l) => l.uncheck(options), { method: "uncheck", options }),
       toString: () => locator.toString(),
       use,
     });
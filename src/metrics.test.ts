@@ -0,0 +1,62 @@
+import { EventEmitter } from "node:events";
+import { assert, describe, it } from "@effect/vitest";
+import { Effect, Metric } from "effect";
+import type { Page } from "playwright-core";
+import * as PlaywrightMetrics from "./metrics";
+import { trackPage, useHelper } from "./utils";
+
+describe("PlaywrightMetrics", () => {
+  it.effect("should record operation durations and failures", () =>
+    Effect.gen(function* () {
+      const fakeLocator = {
+        click: () => Promise.resolve(),
+        fill: (_value: string) =>
+          Promise.reject(new Error("locator.fill: Element is not visible")),
+      };
+      const use = useHelper(fakeLocator, { name: "metricsLocator" });
+
+      yield* use((l) => l.click(), { method: "click" });
+      yield* use((l) => l.fill("text"), { method: "fill" }).pipe(Effect.ignore);
+
+      const clickDuration = yield* Metric.value(
+        Metric.tagged(
+          PlaywrightMetrics.operationDuration,
+          "operation",
+          "metricsLocator.click",
+        ),
+      );
+      assert.strictEqual(clickDuration.count, 1);
+
+      const failures = yield* Metric.value(
+        Metric.tagged(
+          Metric.tagged(
+            PlaywrightMetrics.operationFailures,
+            "operation",
+            "metricsLocator.fill",
+          ),
+          "reason",
+          "ElementNotVisible",
+        ),
+      );
+      assert.strictEqual(failures.count, 1);
+    }),
+  );
+
+  it.effect("should track open pages until they are closed", () =>
+    Effect.gen(function* () {
+      const page = Object.assign(new EventEmitter(), { isClosed: () => false });
+      const { value: before } = yield* Metric.value(
+        PlaywrightMetrics.pagesOpen,
+      );
+
+      yield* trackPage(page as unknown as Page);
+      yield* trackPage(page as unknown as Page);
+      const { value: open } = yield* Metric.value(PlaywrightMetrics.pagesOpen);
+      assert.strictEqual(open, before + 1);
+
+      page.emit("close");
+      const { value: after } = yield* Metric.value(PlaywrightMetrics.pagesOpen);
+      assert.strictEqual(after, before);
+    }),
+  );
+});
@@ -0,0 +1,57 @@
+import { Metric } from "effect";
+
+/**
+ * Duration of every wrapped Playwright operation, tagged with `operation`
+ * (e.g. `"page.goto"` or `"locator.click"`).
+ *
+ * @category metrics
+ * @since 0.7.0
+ */
+export const operationDuration = Metric.timer(
+  "playwright_operation_duration",
+  "Duration of Playwright operations",
+);
+
+/**
+ * Duration of page navigations (`goto`, `reload`, `goBack` and `goForward`),
+ * tagged with `operation`.
+ *
+ * @category metrics
+ * @since 0.7.0
+ */
+export const navigationDuration = Metric.timer(
+  "playwright_navigation_duration",
+  "Duration of page navigations",
+);
+
+/**
+ * Number of failed Playwright operations, tagged with `operation` and `reason`
+ * (see {@link PlaywrightErrorReason}).
+ *
+ * @category metrics
+ * @since 0.7.0
+ */
+export const operationFailures = Metric.counter(
+  "playwright_operation_failures",
+  { description: "Number of failed Playwright operations", incremental: true },
+);
+
+/**
+ * Number of currently open pages created through `effect-playwright`.
+ *
+ * @category metrics
+ * @since 0.7.0
+ */
+export const pagesOpen = Metric.gauge("playwright_pages_open", {
+  description: "Number of open pages",
+});
+
+/**
+ * Number of currently open browser contexts created through `effect-playwright`.
+ *
+ * @category metrics
+ * @since 0.7.0
+ */
+export const contextsOpen = Metric.gauge("playwright_contexts_open", {
+  description: "Number of open browser contexts",
+});
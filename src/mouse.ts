@@ -84,15 +84,20 @@ export class PlaywrightMouse extends Context.Tag(
    * @since 0.3.0
    */
   static make(mouse: Mouse): PlaywrightMouseService {
-    const use = useHelper(mouse);
+    const use = useHelper(mouse, { name: "mouse" });
 
     return PlaywrightMouse.of({
-      click: (x, y, options) => use((m) => m.click(x, y, options)),
-      dblclick: (x, y, options) => use((m) => m.dblclick(x, y, options)),
-      down: (options) => use((m) => m.down(options)),
-      move: (x, y, options) => use((m) => m.move(x, y, options)),
-      up: (options) => use((m) => m.up(options)),
-      wheel: (deltaX, deltaY) => use((m) => m.wheel(deltaX, deltaY)),
+      click: (x, y, options) =>
+        use((m) => m.click(x, y, options), { method: "click", options }),
+      dblclick: (x, y, options) =>
+        use((m) => m.dblclick(x, y, options), { method: "dblclick", options }),
+      down: (options) =>
+        use((m) => m.down(options), { method: "down", options }),
+      move: (x, y, options) =>
+        use((m) => m.move(x, y, options), { method: "move", options }),
+      up: (options) => use((m) => m.up(options), { method: "up", options }),
+      wheel: (deltaX, deltaY) =>
+        use((m) => m.wheel(deltaX, deltaY), { method: "wheel" }),
     });
   }
 }
@@ -1,8 +1,18 @@
 import { assert, layer } from "@effect/vitest";
-import { Effect, Fiber, Option, Ref, Stream } from "effect";
-import { chromium } from "playwright-core";
+import {
+  Deferred,
+  Effect,
+  Fiber,
+  Option,
+  Ref,
+  Schedule,
+  Schema,
+  Stream,
+} from "effect";
+import { chromium, type Page } from "playwright-core";
 import { PlaywrightBrowser } from "./browser";
 import { PlaywrightEnvironment } from "./experimental";
+import { PlaywrightPage } from "./page";
 
 type TestWindow = Window & {
   timerFired?: boolean;
@@ -119,6 +129,100 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightPage", (it) => {
       }).pipe(PlaywrightEnvironment.withBrowser),
   );
 
+  it.scoped("evaluateSchema should decode the evaluated value", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      const Item = Schema.Struct({ id: Schema.NumberFromString });
+
+      const item = yield* page.evaluateSchema(
+        Item,
+        (id) => ({ id: String(id) }),
+        42,
+      );
+      assert.deepStrictEqual(item, { id: 42 });
+
+      const error = yield* page
+        .evaluateSchema(Item, () => ({ id: 42 }))
+        .pipe(Effect.flip);
+      assert.strictEqual(error._tag, "EvaluateDecodeError");
+      if (error._tag === "EvaluateDecodeError") {
+        assert.strictEqual(error.operation, "page.evaluate");
+      }
+
+      yield* page.setContent("<span data-amount='12.5'>12.50 €</span>");
+      const amount = yield* page
+        .locator("span")
+        .evaluateSchema(
+          Schema.NumberFromString,
+          (element) => element.dataset.amount,
+        );
+      assert.strictEqual(amount, 12.5);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("waitForFunction should return the truthy value", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.evaluate(() => {
+        setTimeout(() => {
+          (window as TestWindow).magicValue = 42;
+        }, 50);
+      });
+      const value = yield* page.waitForFunction(
+        (offset) => {
+          const magic = (window as TestWindow).magicValue;
+          return magic === undefined ? undefined : magic + offset;
+        },
+        1,
+        { polling: 10 },
+      );
+      assert.strictEqual(value, 43);
+
+      const error = yield* page
+        .waitForFunction(() => false, undefined, { timeout: 100 })
+        .pipe(Effect.flip);
+      assert.strictEqual(error.reason, "Timeout");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("waitUntil should retry the check until it returns Some", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      const attempts = yield* Ref.make(0);
+
+      const check = Ref.updateAndGet(attempts, (n) => n + 1).pipe(
+        Effect.map((n) => (n >= 3 ? Option.some(n) : Option.none())),
+      );
+
+      const value = yield* PlaywrightPage.waitUntil(
+        page,
+        check,
+        Schedule.recurs(5),
+      );
+      assert.strictEqual(value, 3);
+
+      yield* Ref.set(attempts, 0);
+      const timeout = yield* PlaywrightPage.waitUntil(
+        page,
+        check,
+        Schedule.recurs(1),
+      ).pipe(Effect.flip);
+      assert.strictEqual(timeout.reason, "Timeout");
+
+      yield* page.close;
+      const closed = yield* PlaywrightPage.waitUntil(
+        page,
+        check,
+        Schedule.forever,
+      ).pipe(Effect.flip);
+      assert.strictEqual(closed.reason, "TargetClosed");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
   it.scoped("evaluate should run code with a single value arg", () =>
     Effect.gen(function* () {
       const browser = yield* PlaywrightBrowser;
@@ -995,4 +1099,342 @@ layer(PlaywrightEnvironment.layer(chromium))("PlaywrightPage", (it) => {
       }
     }).pipe(PlaywrightEnvironment.withBrowser),
   );
+
+  it.scoped("route should intercept requests until its scope closes", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      const handled = yield* Ref.make(0);
+
+      yield* Effect.scoped(
+        Effect.gen(function* () {
+          yield* page.route("http://route.test/", (route) =>
+            Ref.update(handled, (n) => n + 1).pipe(
+              Effect.zipRight(
+                route.fulfill({
+                  contentType: "text/html",
+                  body: "<title>Routed</title>",
+                }),
+              ),
+            ),
+          );
+
+          yield* page.goto("http://route.test/");
+          assert.strictEqual(yield* page.title, "Routed");
+        }),
+      );
+
+      assert.strictEqual(yield* Ref.get(handled), 1);
+
+      yield* page.route("http://route.test/", (route) => route.abort());
+      const result = yield* page.goto("http://route.test/").pipe(Effect.flip);
+      assert.strictEqual(result._tag, "PlaywrightError");
+      assert.strictEqual(yield* Ref.get(handled), 1);
+
+      yield* page.unrouteAll();
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("route should fall back when the handler fails", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.route("http://route.test/", (route) =>
+        route.fulfill({
+          contentType: "text/html",
+          body: "<title>Fallback</title>",
+        }),
+      );
+      yield* page.route("http://route.test/", () => Effect.fail("boom"));
+
+      yield* page.goto("http://route.test/");
+      assert.strictEqual(yield* page.title, "Fallback");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("routeWebSocket should mock WebSocket connections", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.routeWebSocket("ws://socket.test/", (ws) =>
+        ws.messages.pipe(
+          Stream.runForEach((message) => ws.send(`echo: ${message}`)),
+        ),
+      );
+      yield* page.goto("about:blank");
+
+      const reply = yield* page.evaluate(
+        () =>
+          new Promise<string>((resolve) => {
+            const ws = new WebSocket("ws://socket.test/");
+            ws.addEventListener("open", () => ws.send("hello"));
+            ws.addEventListener("message", (event) => {
+              resolve(String(event.data));
+              ws.close();
+            });
+          }),
+      );
+
+      assert.strictEqual(reply, "echo: hello");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("routeWebSocket should share messages between streams", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.routeWebSocket("ws://socket.test/", (ws) =>
+        Effect.gen(function* () {
+          yield* Effect.fork(ws.messages.pipe(Stream.take(1), Stream.runDrain));
+          yield* ws.messages.pipe(
+            Stream.runForEach((message) => ws.send(`echo: ${message}`)),
+          );
+        }),
+      );
+      yield* page.goto("about:blank");
+
+      const replies = yield* page.evaluate(
+        () =>
+          new Promise<Array<string>>((resolve) => {
+            const replies: Array<string> = [];
+            const ws = new WebSocket("ws://socket.test/");
+            ws.addEventListener("open", () => ws.send("hello"));
+            ws.addEventListener("message", (event) => {
+              replies.push(String(event.data));
+              if (replies.length === 1) {
+                ws.send("again");
+              } else {
+                resolve(replies);
+                ws.close();
+              }
+            });
+          }),
+      );
+
+      assert.deepStrictEqual(replies, ["echo: hello", "echo: again"]);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("routeWebSocket should connect to the server only once", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      const checked = yield* Deferred.make<void>();
+
+      yield* page.routeWebSocket("ws://socket.test/", (ws) =>
+        Effect.gen(function* () {
+          const server = yield* ws.connectToServer;
+          assert.strictEqual(yield* ws.connectToServer, server);
+          const error = yield* server.connectToServer.pipe(Effect.flip);
+          assert.strictEqual(error._tag, "PlaywrightError");
+        }).pipe(Effect.orDie, Effect.intoDeferred(checked)),
+      );
+      yield* page.goto("about:blank");
+      yield* page.evaluate(() => {
+        new WebSocket("ws://socket.test/");
+      });
+
+      yield* Deferred.await(checked);
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("failOnPageError should fail with uncaught page errors", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.goto("about:blank");
+
+      const error = yield* PlaywrightPage.failOnPageError(
+        page,
+        Effect.gen(function* () {
+          yield* page.evaluate(() => {
+            setTimeout(() => {
+              throw new Error("boom");
+            });
+          });
+          return yield* Effect.never;
+        }),
+      ).pipe(Effect.flip);
+
+      assert.strictEqual(error._tag, "UncaughtPageError");
+      if (error._tag === "UncaughtPageError") {
+        assert.strictEqual(error.cause.message, "boom");
+        assert.strictEqual(error.url, "about:blank");
+      }
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("failOnPageError should optionally fail with console errors", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+      yield* page.goto("about:blank");
+
+      const logError = page.evaluate(() => console.error("oops"));
+
+      const ignored = yield* PlaywrightPage.failOnPageError(page, logError);
+      assert.isUndefined(ignored);
+
+      const error = yield* PlaywrightPage.failOnPageError(
+        page,
+        Effect.zipRight(logError, Effect.never),
+        { consoleErrors: true },
+      ).pipe(Effect.flip);
+      assert.strictEqual(error._tag, "PageConsoleError");
+
+      const existing = yield* PlaywrightPage.failOnPageError(
+        page,
+        Effect.void,
+        { consoleErrors: true, includeExisting: true },
+      ).pipe(Effect.flip);
+      assert.strictEqual(existing._tag, "PageConsoleError");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("waitForResponse should return the matching response", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      yield* page.route(/wait\.test/, (route) =>
+        route.fulfill({ contentType: "text/html", body: "<p>ok</p>" }),
+      );
+
+      const [response] = yield* Effect.all(
+        [
+          page.waitForResponse("http://wait.test/"),
+          page.goto("http://wait.test/"),
+        ],
+        { concurrency: "unbounded" },
+      );
+      assert.strictEqual(response.status(), 200);
+
+      const [request] = yield* Effect.all(
+        [
+          page.waitForRequest((request) =>
+            Effect.succeed(request.url().endsWith("/second")),
+          ),
+          page
+            .goto("http://wait.test/first")
+            .pipe(Effect.zipRight(page.goto("http://wait.test/second"))),
+        ],
+        { concurrency: "unbounded" },
+      );
+      assert.strictEqual(request.url(), "http://wait.test/second");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("waitForEvent should fail with a timeout", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      const error = yield* page
+        .waitForEvent("dialog", { timeout: 50 })
+        .pipe(Effect.flip);
+      assert.strictEqual(error.reason, "Timeout");
+
+      const [dialog] = yield* Effect.all(
+        [
+          page.waitForEvent("dialog", {
+            predicate: (dialog) => Effect.succeed(dialog.type() === "alert"),
+          }),
+          page.evaluate(() => {
+            setTimeout(() => alert("hello"), 0);
+          }),
+        ],
+        { concurrency: "unbounded" },
+      );
+      assert.strictEqual(dialog.message(), "hello");
+      yield* dialog.dismiss;
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped(
+    "withResponse should capture the response triggered by an action",
+    () =>
+      Effect.gen(function* () {
+        const browser = yield* PlaywrightBrowser;
+        const page = yield* browser.newPage();
+
+        yield* page.route(/orders\.test/, (route) =>
+          route.request().method() === "POST"
+            ? route.fulfill({ status: 201, json: { id: 7 } })
+            : route.fulfill({
+                contentType: "text/html",
+                body: `<button onclick="fetch('/api/orders', { method: 'POST' })">Order</button>`,
+              }),
+        );
+        yield* page.goto("http://orders.test/");
+
+        const [clicked, response] = yield* PlaywrightPage.withResponse(
+          page,
+          (response) => Effect.succeed(response.request().method() === "POST"),
+          page.click("button").pipe(Effect.as("clicked")),
+        );
+
+        assert.strictEqual(clicked, "clicked");
+        assert.strictEqual(response.url(), "http://orders.test/api/orders");
+        assert.strictEqual(response.status(), 201);
+        assert.deepStrictEqual(yield* response.json, { id: 7 });
+      }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("withResponse should fail with Playwright's timeout", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      const error = yield* PlaywrightPage.withResponse(
+        page,
+        "**/never",
+        Effect.void,
+        { timeout: 100 },
+      ).pipe(Effect.flip);
+
+      assert.strictEqual(error._tag, "PlaywrightError");
+      assert.strictEqual(error.reason, "Timeout");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.scoped("withResponse should fail for an invalid matcher", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const page = yield* browser.newPage();
+
+      const error = yield* PlaywrightPage.withResponse(
+        page,
+        "**/api/{a,b",
+        Effect.void,
+      ).pipe(Effect.flip);
+
+      assert.strictEqual(error._tag, "PlaywrightError");
+    }).pipe(PlaywrightEnvironment.withBrowser),
+  );
+
+  it.effect("withResponse should fail when the waiter cannot start", () =>
+    Effect.gen(function* () {
+      const page = PlaywrightPage.make({
+        url: () => "about:blank",
+        waitForResponse: () => {
+          throw new Error("invalid matcher");
+        },
+      } as unknown as Page);
+      let ran = false;
+
+      const error = yield* PlaywrightPage.withResponse(
+        page,
+        "**/api",
+        Effect.sync(() => {
+          ran = true;
+        }),
+      ).pipe(Effect.flip);
+
+      assert.strictEqual(error._tag, "PlaywrightError");
+      assert.isFalse(ran);
+    }),
+  );
 });
@@ -1,10 +1,19 @@
 import {
   Array,
   Context,
+  Deferred,
+  Duration,
   Effect,
+  Exit,
+  Fiber,
   identity,
+  Mailbox,
+  Metric,
   Option,
   Runtime,
+  type Schedule,
+  type Schema,
+  type Scope,
   Stream,
 } from "effect";
 import type {
@@ -14,31 +23,54 @@ import type {
   ElementHandle,
   FileChooser,
   Frame,
+  JSHandle,
   Page,
   Request,
   Response,
   WebSocket,
   Worker,
 } from "playwright-core";
+import {
+  PlaywrightAPIRequest,
+  type PlaywrightAPIRequestService,
+} from "./api-request";
 import {
   PlaywrightBrowserContext,
   type PlaywrightBrowserContextService,
 } from "./browser-context";
 import { PlaywrightClock, type PlaywrightClockService } from "./clock";
 import {
+  type EventHubOptions,
+  PlaywrightConsoleMessage,
   PlaywrightDialog,
   PlaywrightDownload,
   PlaywrightFileChooser,
   PlaywrightRequest,
   PlaywrightResponse,
+  PlaywrightRoute,
+  PlaywrightWebSocket,
+  PlaywrightWebSocketRoute,
   PlaywrightWorker,
 } from "./common";
-import type { PlaywrightError } from "./errors";
+import {
+  EvaluateDecodeError,
+  PageConsoleError,
+  PageCrashedError,
+  PageRequestFailedError,
+  PlaywrightError,
+  UncaughtPageError,
+} from "./errors";
 import { PlaywrightFrame } from "./frame";
+import type { RouteFromHAROptions } from "./har-replay";
 import { PlaywrightKeyboard, type PlaywrightKeyboardService } from "./keyboard";
 import { PlaywrightLocator } from "./locator";
+import { navigationDuration } from "./metrics";
 import { PlaywrightMouse, type PlaywrightMouseService } from "./mouse";
-import type { PageFunction, PatchedEvents } from "./playwright-types";
+import type {
+  PageFunction,
+  PatchedEvents,
+  PatchedWaitForEvent,
+} from "./playwright-types";
 import {
   PlaywrightScreencast,
   type PlaywrightScreencastService,
@@ -47,7 +79,16 @@ import {
   PlaywrightTouchscreen,
   type PlaywrightTouchscreenService,
 } from "./touchscreen";
-import { useHelper } from "./utils";
+import {
+  decodeWith,
+  jsonValueAndDispose,
+  makeEventHub,
+  routeHandler,
+  unwrapHandles,
+  useHelper,
+  waitForWithPredicate,
+  webSocketRouteHandler,
+} from "./utils";
 import {
   PlaywrightWebStorage,
   type PlaywrightWebStorageService,
@@ -77,7 +118,7 @@ interface PageEvents {
 
 const eventMappings = {
   close: (page: Page) => PlaywrightPage.make(page),
-  console: identity<ConsoleMessage>,
+  console: (message: ConsoleMessage) => PlaywrightConsoleMessage.make(message),
   crash: (page: Page) => PlaywrightPage.make(page),
   dialog: (dialog: Dialog) => PlaywrightDialog.make(dialog),
   domcontentloaded: (page: Page) => PlaywrightPage.make(page),
@@ -94,11 +135,123 @@ const eventMappings = {
   requestfailed: (request: Request) => PlaywrightRequest.make(request),
   requestfinished: (request: Request) => PlaywrightRequest.make(request),
   response: (response: Response) => PlaywrightResponse.make(response),
-  websocket: identity<WebSocket>,
+  websocket: (webSocket: WebSocket) => PlaywrightWebSocket.make(webSocket),
   worker: (worker: Worker) => PlaywrightWorker.make(worker),
 } as const;
 
-type PageWithPatchedEvents = PatchedEvents<Page, PageEvents>;
+/**
+ * The name of an event emitted by a page, e.g. `"console"` or `"request"`.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export type PlaywrightPageEventName = keyof PageEvents;
+
+/**
+ * The value emitted by {@link PlaywrightPageService.eventStream} for the given event.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export type PlaywrightPageEvent<K extends PlaywrightPageEventName> = ReturnType<
+  (typeof eventMappings)[K]
+>;
+
+type PageWithPatchedEvents = PatchedWaitForEvent<
+  PatchedEvents<Page, PageEvents>,
+  PageEvents
+>;
+
+/** The Playwright page and `use` function behind a service created by `make`. */
+interface PageInternals {
+  readonly raw: PageWithPatchedEvents;
+  readonly use: ReturnType<typeof useHelper<PageWithPatchedEvents>>;
+}
+
+const pageInternals = new WeakMap<PlaywrightPageService, PageInternals>();
+
+const internalsOf = (page: PlaywrightPageService) =>
+  Effect.suspend(() => {
+    const internals = pageInternals.get(page);
+    return internals === undefined
+      ? Effect.dieMessage(
+          "effect-playwright: the page was not created by PlaywrightPage.make",
+        )
+      : Effect.succeed(internals);
+  });
+
+/**
+ * Eagerly subscribes to the given event. Events are buffered in the returned
+ * mailbox until the scope is closed; the mailbox is done once the page closes.
+ */
+const subscribe = <K extends keyof PageEvents>(
+  page: PageWithPatchedEvents,
+  event: K,
+) =>
+  Effect.acquireRelease(
+    Effect.map(Mailbox.make<PageEvents[K]>(), (mailbox) => {
+      const onEvent = (value: PageEvents[K]) => {
+        mailbox.unsafeOffer(value);
+      };
+      const onClose = () => {
+        mailbox.unsafeDone(Exit.void);
+      };
+      page.on(event, onEvent);
+      page.once("close", onClose);
+      return { mailbox, onEvent, onClose };
+    }),
+    ({ mailbox, onEvent, onClose }) =>
+      Effect.sync(() => {
+        page.off(event, onEvent);
+        page.off("close", onClose);
+      }).pipe(Effect.zipRight(mailbox.shutdown)),
+  ).pipe(
+    Effect.map(
+      ({ mailbox }): Mailbox.ReadonlyMailbox<PageEvents[K]> => mailbox,
+    ),
+  );
+
+const mapEvent = <K extends keyof PageEvents>(event: K, value: PageEvents[K]) =>
+  // biome-ignore lint/suspicious/noExplicitAny: see eventStream
+  eventMappings[event](value as any) as ReturnType<(typeof eventMappings)[K]>;
+
+/** Signals that the condition of `waitUntil` is not met yet. */
+class ConditionPending {}
+
+type PageFailure =
+  | UncaughtPageError
+  | PageCrashedError
+  | PageConsoleError
+  | PageRequestFailedError;
+
+const uncaughtPageError = (page: Page, cause: Error) =>
+  new UncaughtPageError({ url: page.url(), cause });
+
+const pageConsoleError = (
+  page: Page,
+  message: ConsoleMessage | PlaywrightConsoleMessage,
+) =>
+  new PageConsoleError({
+    url: page.url(),
+    text: message.text(),
+    location: message.location(),
+  });
+
+const trackNavigation =
+  (operation: string) =>
+  <A, E, R>(self: Effect.Effect<A, E, R>) =>
+    Effect.suspend(() => {
+      const start = performance.now();
+      return Effect.ensuring(
+        self,
+        Effect.suspend(() =>
+          Metric.update(
+            Metric.tagged(navigationDuration, "operation", operation),
+            Duration.millis(performance.now() - start),
+          ),
+        ),
+      );
+    });
 
 /**
  * @category model
@@ -124,6 +277,14 @@ export interface PlaywrightPageService {
    * @since 0.3.0
    */
   readonly keyboard: PlaywrightKeyboardService;
+  /**
+   * API testing helper associated with the page. Requests made with it use the
+   * cookies of the browser context and update them from the responses.
+   *
+   * @see {@link Page.request}
+   * @since 0.7.0
+   */
+  readonly request: PlaywrightAPIRequestService;
   /**
    * Access the mouse.
    *
@@ -284,6 +445,50 @@ export interface PlaywrightPageService {
     arg?: Arg,
     options?: Parameters<Page["evaluate"]>[2],
   ) => Effect.Effect<R, PlaywrightError>;
+  /**
+   * Like `evaluate`, but decodes the value returned from the browser with the given
+   * schema. Fails with an {@link EvaluateDecodeError} if it does not match.
+   *
+   * @example
+   * ```ts
+   * const Links = Schema.Array(Schema.Struct({ href: Schema.String }));
+   * const links = yield* page.evaluateSchema(Links, () =>
+   *   Array.from(document.links, (link) => ({ href: link.href })),
+   * );
+   * ```
+   *
+   * @see {@link Page.evaluate}
+   * @since 0.7.0
+   */
+  readonly evaluateSchema: <A, I, R, Arg = void>(
+    schema: Schema.Schema<A, I, R>,
+    pageFunction: PageFunction<Arg, unknown>,
+    arg?: Arg,
+    options?: Parameters<Page["evaluate"]>[2],
+  ) => Effect.Effect<A, PlaywrightError | EvaluateDecodeError, R>;
+  /**
+   * Waits until the function returns a truthy value and returns that value.
+   *
+   * The value is serialized to JSON, like the result of `evaluate`. Use `polling` to poll
+   * on an interval (in milliseconds) instead of on every animation frame.
+   *
+   * @example
+   * ```ts
+   * const cartSize = yield* page.waitForFunction(
+   *   (min) => window.cart?.length >= min && window.cart.length,
+   *   3,
+   *   { polling: 100, timeout: 5_000 },
+   * );
+   * ```
+   *
+   * @see {@link Page.waitForFunction}
+   * @since 0.7.0
+   */
+  readonly waitForFunction: <R, Arg = void>(
+    pageFunction: PageFunction<Arg, R>,
+    arg?: Arg,
+    options?: Parameters<Page["waitForFunction"]>[2],
+  ) => Effect.Effect<R, PlaywrightError>;
   /**
    * Adds a script which would be evaluated in one of the following scenarios:
    * - Whenever the page is navigated.
@@ -414,6 +619,100 @@ export interface PlaywrightPageService {
     name: Parameters<Page["exposeFunction"]>[0],
     playwrightFunction: Effect.Effect<A, E, R>,
   ) => Effect.Effect<void, PlaywrightError, R>;
+  /**
+   * Routing provides the capability to modify network requests that are made by the page.
+   *
+   * The provided handler must return an `Effect` which will be executed using the
+   * current runtime for every matching request. The route is registered for the
+   * lifetime of the current `Scope` and removed automatically when the scope closes.
+   *
+   * Failures of the handler are logged and the request falls back to the next
+   * matching route.
+   *
+   * @example
+   * ```ts
+   * yield* page.route(/\.(png|jpg)$/, (route) => route.abort());
+   *
+   * yield* page.route("https://example.com/api/user", (route) =>
+   *   route.fulfill({ json: { name: "Jane" } }),
+   * );
+   * ```
+   *
+   * @see {@link Page.route}
+   * @since 0.7.0
+   */
+  readonly route: <A, E, R>(
+    url: Parameters<Page["route"]>[0],
+    handler: (route: PlaywrightRoute) => Effect.Effect<A, E, R>,
+    options?: Parameters<Page["route"]>[2],
+  ) => Effect.Effect<void, PlaywrightError, R | Scope.Scope>;
+  /**
+   * Removes all routes registered for the given url.
+   *
+   * @see {@link Page.unroute}
+   * @since 0.7.0
+   */
+  readonly unroute: (
+    url: Parameters<Page["unroute"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Removes all routes registered with {@link PlaywrightPageService.route}.
+   *
+   * @see {@link Page.unrouteAll}
+   * @since 0.7.0
+   */
+  readonly unrouteAll: (
+    options?: Parameters<Page["unrouteAll"]>[0],
+  ) => Effect.Effect<void, PlaywrightError>;
+  /**
+   * Allows to modify WebSocket connections made by the page.
+   *
+   * The provided handler must return an `Effect` which is forked using the current
+   * runtime for every matching WebSocket. The route is active for the lifetime of
+   * the current `Scope`: when the scope closes, running handlers are interrupted and
+   * WebSockets created afterwards are connected to the server as usual.
+   *
+   * Failures of the handler are logged.
+   *
+   * @example
+   * ```ts
+   * yield* page.routeWebSocket("wss://example.com/chat", (ws) =>
+   *   ws.messages.pipe(
+   *     Stream.runForEach((message) => ws.send(`echo: ${message}`)),
+   *   ),
+   * );
+   * ```
+   *
+   * @see {@link Page.routeWebSocket}
+   * @since 0.7.0
+   */
+  readonly routeWebSocket: <A, E, R>(
+    url: Parameters<Page["routeWebSocket"]>[0],
+    handler: (route: PlaywrightWebSocketRoute) => Effect.Effect<A, E, R>,
+  ) => Effect.Effect<void, PlaywrightError, R | Scope.Scope>;
+  /**
+   * Serves network requests made by the page from a HAR file. Requests that do not
+   * match an entry in the archive are handled according to `options.notFound`.
+   *
+   * When `options.update` is set, the HAR file is recorded from actual network traffic
+   * instead and written to disk when the browser context is closed.
+   *
+   * Unlike {@link PlaywrightPageService.route}, the HAR routes are not tied to the current
+   * `Scope`: Playwright cannot remove them individually, so they stay active for the
+   * lifetime of the page.
+   *
+   * @example
+   * ```ts
+   * yield* page.routeFromHAR("fixtures/api.har", { url: /\/api\// });
+   * ```
+   *
+   * @see {@link Page.routeFromHAR}
+   * @since 0.7.0
+   */
+  readonly routeFromHAR: (
+    har: string,
+    options?: RouteFromHAROptions,
+  ) => Effect.Effect<void, PlaywrightError>;
   /**
    * Adds a `<link rel="stylesheet">` tag into the page with the desired url or a `<style type="text/css">` tag with the content.
    *
@@ -745,7 +1044,7 @@ export interface PlaywrightPageService {
    */
   readonly consoleMessages: (
     options?: Parameters<Page["consoleMessages"]>[0],
-  ) => Effect.Effect<ReadonlyArray<ConsoleMessage>, PlaywrightError>;
+  ) => Effect.Effect<ReadonlyArray<PlaywrightConsoleMessage>, PlaywrightError>;
 
   /**
    * Returns all errors that have been thrown in the page.
@@ -861,6 +1160,113 @@ export interface PlaywrightPageService {
    * @since 0.3.0
    */
   readonly mainFrame: () => typeof PlaywrightFrame.Service;
+  /**
+   * Waits for the given event to be emitted by the page and returns its value,
+   * mapped like in {@link eventStream}.
+   *
+   * The optional predicate is an `Effect` that receives the mapped event. Fails with a
+   * `Timeout` {@link PlaywrightError} if the event is not emitted within `timeout`
+   * milliseconds (defaults to the page's default timeout).
+   *
+   * @example
+   * ```ts
+   * const [download] = yield* Effect.all(
+   *   [page.waitForEvent("download"), page.click("#export")],
+   *   { concurrency: "unbounded" },
+   * );
+   * ```
+   *
+   * @category custom
+   * @see {@link Page.waitForEvent}
+   * @since 0.7.0
+   */
+  readonly waitForEvent: <K extends keyof PageEvents, E = never, R = never>(
+    event: K,
+    options?: {
+      readonly predicate?: (
+        event: ReturnType<(typeof eventMappings)[K]>,
+      ) => Effect.Effect<boolean, E, R>;
+      readonly timeout?: number;
+    },
+  ) => Effect.Effect<
+    ReturnType<(typeof eventMappings)[K]>,
+    PlaywrightError | E,
+    R
+  >;
+  /**
+   * Waits for a matching request and returns it.
+   *
+   * The URL can be a glob pattern or a regular expression, matched by Playwright, or an
+   * `Effect` predicate that receives the wrapped request. Glob patterns must match the
+   * whole URL: `*` matches any characters except `/`, `**` matches any characters, and
+   * `{a,b}` matches any of the alternatives. An invalid glob pattern fails with a
+   * {@link PlaywrightError}.
+   * Fails with a `Timeout` {@link PlaywrightError} if no matching request is seen within
+   * `timeout` milliseconds.
+   *
+   * @category custom
+   * @see {@link Page.waitForRequest}
+   * @since 0.7.0
+   */
+  readonly waitForRequest: <E = never, R = never>(
+    urlOrPredicate:
+      | string
+      | RegExp
+      | ((request: PlaywrightRequest) => Effect.Effect<boolean, E, R>),
+    options?: { readonly timeout?: number },
+  ) => Effect.Effect<PlaywrightRequest, PlaywrightError | E, R>;
+  /**
+   * Waits for a matching response and returns it.
+   *
+   * The URL is matched like in {@link PlaywrightPageService.waitForRequest}, or by an
+   * `Effect` predicate that receives the wrapped response.
+   * Fails with a `Timeout` {@link PlaywrightError} if no matching response is seen within
+   * `timeout` milliseconds.
+   *
+   * @category custom
+   * @see {@link Page.waitForResponse}
+   * @since 0.7.0
+   */
+  readonly waitForResponse: <E = never, R = never>(
+    urlOrPredicate:
+      | string
+      | RegExp
+      | ((response: PlaywrightResponse) => Effect.Effect<boolean, E, R>),
+    options?: { readonly timeout?: number },
+  ) => Effect.Effect<PlaywrightResponse, PlaywrightError | E, R>;
+  /**
+   * Starts buffering the given event from the page and returns a stream of it.
+   *
+   * Unlike {@link PlaywrightPageService.eventStream}, the listener is attached when this
+   * effect runs rather than when the stream runs, so events emitted in between are not
+   * lost. A single listener is shared by all runs of the returned stream, and each run
+   * first receives the buffered events (see {@link EventHubOptions}). The streams end
+   * when the page closes, and the listener is removed when the scope closes.
+   *
+   * @example
+   * ```ts
+   * const requests = yield* page.eventHub("request");
+   * yield* page.goto("https://example.com");
+   * // includes the requests made by `goto`
+   * const urls = yield* requests.pipe(
+   *   Stream.map((request) => request.url()),
+   *   Stream.take(3),
+   *   Stream.runCollect,
+   * );
+   * ```
+   *
+   * @category custom
+   * @see {@link Page.on}
+   * @since 0.7.0
+   */
+  readonly eventHub: <K extends keyof PageEvents>(
+    event: K,
+    options?: EventHubOptions,
+  ) => Effect.Effect<
+    Stream.Stream<ReturnType<(typeof eventMappings)[K]>>,
+    never,
+    Scope.Scope
+  >;
   /**
    * Creates a stream of the given event from the page.
    *
@@ -891,42 +1297,103 @@ export class PlaywrightPage extends Context.Tag(
    * @since 0.1.0
    */
   static make(page: PageWithPatchedEvents): PlaywrightPageService {
-    const use = useHelper(page);
+    const use = useHelper(page, { name: "page", target: (p) => p.url() });
 
-    return PlaywrightPage.of({
+    const service = PlaywrightPage.of({
       clock: PlaywrightClock.make(page.clock),
       localStorage: PlaywrightWebStorage.make(page.localStorage),
       keyboard: PlaywrightKeyboard.make(page.keyboard),
+      request: PlaywrightAPIRequest.make(page.request),
       mouse: PlaywrightMouse.make(page.mouse),
       touchscreen: PlaywrightTouchscreen.make(page.touchscreen),
       screencast: PlaywrightScreencast.make(page.screencast),
       sessionStorage: PlaywrightWebStorage.make(page.sessionStorage),
-      goto: (url, options) => use((p) => p.goto(url, options)),
-      setContent: (html, options) => use((p) => p.setContent(html, options)),
-      waitForTimeout: (timeout) => use((p) => p.waitForTimeout(timeout)),
+      goto: (url, options) =>
+        use((p) => p.goto(url, options), { method: "goto", options }).pipe(
+          trackNavigation("page.goto"),
+        ),
+      setContent: (html, options) =>
+        use((p) => p.setContent(html, options), {
+          method: "setContent",
+          options,
+        }),
+      waitForTimeout: (timeout) =>
+        use((p) => p.waitForTimeout(timeout), { method: "waitForTimeout" }),
       setDefaultNavigationTimeout: (timeout) =>
         page.setDefaultNavigationTimeout(timeout),
       setDefaultTimeout: (timeout) => page.setDefaultTimeout(timeout),
       setExtraHTTPHeaders: (headers) =>
-        use((p) => p.setExtraHTTPHeaders(headers)),
+        use((p) => p.setExtraHTTPHeaders(headers), {
+          method: "setExtraHTTPHeaders",
+        }),
       setViewportSize: (viewportSize) =>
-        use((p) => p.setViewportSize(viewportSize)),
+        use((p) => p.setViewportSize(viewportSize), {
+          method: "setViewportSize",
+        }),
       viewportSize: () => Option.fromNullable(page.viewportSize()),
-      waitForURL: (url, options) => use((p) => p.waitForURL(url, options)),
+      waitForURL: (url, options) =>
+        use((p) => p.waitForURL(url, options), {
+          method: "waitForURL",
+          options,
+        }),
       waitForLoadState: (state, options) =>
-        use((p) => p.waitForLoadState(state, options)),
-      title: use((p) => p.title()),
-      content: use((p) => p.content()),
+        use((p) => p.waitForLoadState(state, options), {
+          method: "waitForLoadState",
+          options,
+        }),
+      title: use((p) => p.title(), { method: "title" }),
+      content: use((p) => p.content(), { method: "content" }),
       evaluate: <R, Arg>(
         f: PageFunction<Arg, R>,
         arg?: Arg,
         options?: Parameters<Page["evaluate"]>[2],
       ) =>
-        use((p) =>
-          p.evaluate<R, Arg>(
-            f as unknown as Parameters<typeof p.evaluate<R, Arg>>[0],
-            arg as Arg,
-            options,
+        use(
+          (p) =>
+            p.evaluate<R, Arg>(
+              f as unknown as Parameters<typeof p.evaluate<R, Arg>>[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "evaluate", options },
+        ),
+      waitForFunction: <R, Arg>(
+        f: PageFunction<Arg, R>,
+        arg?: Arg,
+        options?: Parameters<Page["waitForFunction"]>[2],
+      ) =>
+        use(
+          (p) =>
+            p
+              .waitForFunction<R, Arg>(
+                f as unknown as Parameters<typeof p.waitForFunction<R, Arg>>[0],
+                unwrapHandles(arg) as Arg,
+                options,
+              )
+              .then((handle) => jsonValueAndDispose(handle as JSHandle<R>)),
+          { method: "waitForFunction", options },
+        ),
+      evaluateSchema: <A, I, R, Arg>(
+        schema: Schema.Schema<A, I, R>,
+        f: PageFunction<Arg, unknown>,
+        arg?: Arg,
+        options?: Parameters<Page["evaluate"]>[2],
+      ) =>
+        use(
+          (p) =>
+            p.evaluate<unknown, Arg>(
+              f as unknown as Parameters<typeof p.evaluate<unknown, Arg>>[0],
+              unwrapHandles(arg) as Arg,
+              options,
+            ),
+          { method: "evaluate", options },
+        ).pipe(
+          Effect.flatMap(
+            decodeWith(
+              schema,
+              (cause) =>
+                new EvaluateDecodeError({ operation: "page.evaluate", cause }),
+            ),
           ),
         ),
       addInitScript: <Arg>(
@@ -936,15 +1403,22 @@ export class PlaywrightPage extends Context.Tag(
         arg?: Arg,
         options?: Parameters<Page["addInitScript"]>[2],
       ) =>
-        use((p) =>
-          p.addInitScript<Arg>(
-            script as unknown as Parameters<typeof p.addInitScript<Arg>>[0],
-            arg,
-            options,
-          ),
+        use(
+          (p) =>
+            p.addInitScript<Arg>(
+              script as unknown as Parameters<typeof p.addInitScript<Arg>>[0],
+              arg,
+              options,
+            ),
+          { method: "addInitScript", options },
         ).pipe(Effect.asVoid),
-      addScriptTag: (options) => use((p) => p.addScriptTag(options)),
-      addStyleTag: (options) => use((p) => p.addStyleTag(options)),
+      addScriptTag: (options) =>
+        use((p) => p.addScriptTag(options), {
+          method: "addScriptTag",
+          options,
+        }),
+      addStyleTag: (options) =>
+        use((p) => p.addStyleTag(options), { method: "addStyleTag", options }),
       exposeFunction: <A, E, R, Args extends unknown[]>(
         name: string,
         effectFn: (...args: Args) => Effect.Effect<A, E, R>,
@@ -952,10 +1426,12 @@ export class PlaywrightPage extends Context.Tag(
         Effect.runtime<R>().pipe(
           Effect.map((r) => Runtime.runPromise(r)),
           Effect.flatMap((runPromise) =>
-            use((p) =>
-              p.exposeFunction(name, (...args: Args) =>
-                runPromise(effectFn(...args)),
-              ),
+            use(
+              (p) =>
+                p.exposeFunction(name, (...args: Args) =>
+                  runPromise(effectFn(...args)),
+                ),
+              { method: "exposeFunction" },
             ),
           ),
         ),
@@ -963,9 +1439,54 @@ export class PlaywrightPage extends Context.Tag(
         Effect.runtime<R>().pipe(
           Effect.map((r) => Runtime.runPromise(r)),
           Effect.flatMap((runPromise) =>
-            use((p) => p.exposeFunction(name, () => runPromise(effectFn))),
+            use((p) => p.exposeFunction(name, () => runPromise(effectFn)), {
+              method: "exposeFunction",
+            }),
+          ),
+        ),
+      route: <A, E, R>(
+        url: Parameters<Page["route"]>[0],
+        handler: (route: PlaywrightRoute) => Effect.Effect<A, E, R>,
+        options?: Parameters<Page["route"]>[2],
+      ) =>
+        Effect.runtime<R>().pipe(
+          Effect.flatMap((runtime) => {
+            const onRoute = routeHandler(runtime, (route) =>
+              handler(PlaywrightRoute.make(route)),
+            );
+            return Effect.acquireRelease(
+              use((p) => p.route(url, onRoute, options), {
+                method: "route",
+                options,
+              }),
+              () =>
+                use((p) => p.unroute(url, onRoute), {
+                  method: "unroute",
+                }).pipe(Effect.ignore),
+            );
+          }),
+        ),
+      unroute: (url) => use((p) => p.unroute(url), { method: "unroute" }),
+      unrouteAll: (options) =>
+        use((p) => p.unrouteAll(options), { method: "unrouteAll", options }),
+      routeWebSocket: <A, E, R>(
+        url: Parameters<Page["routeWebSocket"]>[0],
+        handler: (route: PlaywrightWebSocketRoute) => Effect.Effect<A, E, R>,
+      ) =>
+        webSocketRouteHandler((route) =>
+          handler(PlaywrightWebSocketRoute.make(route)),
+        ).pipe(
+          Effect.flatMap((onRoute) =>
+            use((p) => p.routeWebSocket(url, onRoute), {
+              method: "routeWebSocket",
+            }),
           ),
         ),
+      routeFromHAR: (har, options) =>
+        use((p) => p.routeFromHAR(har, options), {
+          method: "routeFromHAR",
+          options,
+        }),
       locator: (selector, options) =>
         PlaywrightLocator.make(page.locator(selector, options)),
       getByRole: (role, options) =>
@@ -982,19 +1503,36 @@ export class PlaywrightPage extends Context.Tag(
       getByTitle: (text, options) =>
         PlaywrightLocator.make(page.getByTitle(text, options)),
       url: () => page.url(),
-      hideHighlight: use((p) => p.hideHighlight()),
-      clearConsoleMessages: use((p) => p.clearConsoleMessages()),
-      clearPageErrors: use((p) => p.clearPageErrors()),
-      consoleMessages: (options) => use((p) => p.consoleMessages(options)),
-      pageErrors: (options) => use((p) => p.pageErrors(options)),
-      requests: use((p) => p.requests()).pipe(
+      hideHighlight: use((p) => p.hideHighlight(), { method: "hideHighlight" }),
+      clearConsoleMessages: use((p) => p.clearConsoleMessages(), {
+        method: "clearConsoleMessages",
+      }),
+      clearPageErrors: use((p) => p.clearPageErrors(), {
+        method: "clearPageErrors",
+      }),
+      consoleMessages: (options) =>
+        use((p) => p.consoleMessages(options), {
+          method: "consoleMessages",
+          options,
+        }).pipe(Effect.map(Array.map(PlaywrightConsoleMessage.make))),
+      pageErrors: (options) =>
+        use((p) => p.pageErrors(options), { method: "pageErrors", options }),
+      requests: use((p) => p.requests(), { method: "requests" }).pipe(
         Effect.map(Array.map(PlaywrightRequest.make)),
       ),
-      pickLocator: use((p) => p.pickLocator().then(PlaywrightLocator.make)),
-      cancelPickLocator: use((p) => p.cancelPickLocator()),
-      ariaSnapshot: (options) => use((p) => p.ariaSnapshot(options)),
+      pickLocator: use((p) => p.pickLocator().then(PlaywrightLocator.make), {
+        method: "pickLocator",
+      }),
+      cancelPickLocator: use((p) => p.cancelPickLocator(), {
+        method: "cancelPickLocator",
+      }),
+      ariaSnapshot: (options) =>
+        use((p) => p.ariaSnapshot(options), {
+          method: "ariaSnapshot",
+          options,
+        }),
       context: () => PlaywrightBrowserContext.make(page.context()),
-      opener: use((p) => p.opener()).pipe(
+      opener: use((p) => p.opener(), { method: "opener" }).pipe(
         Effect.map(Option.fromNullable),
         Effect.map(Option.map(PlaywrightPage.make)),
       ),
@@ -1004,30 +1542,112 @@ export class PlaywrightPage extends Context.Tag(
         Option.fromNullable(page.frame(frameSelector)).pipe(
           Option.map(PlaywrightFrame.make),
         ),
-      frames: use((p) => Promise.resolve(p.frames().map(PlaywrightFrame.make))),
+      frames: use(
+        (p) => Promise.resolve(p.frames().map(PlaywrightFrame.make)),
+        { method: "frames" },
+      ),
       mainFrame: () => PlaywrightFrame.make(page.mainFrame()),
-      reload: use((p) => p.reload()),
+      reload: use((p) => p.reload(), { method: "reload" }).pipe(
+        trackNavigation("page.reload"),
+      ),
       goBack: (options) =>
-        use((p) => p.goBack(options)).pipe(
+        use((p) => p.goBack(options), { method: "goBack", options }).pipe(
+          trackNavigation("page.goBack"),
           Effect.map(Option.fromNullable),
           Effect.map(Option.map(PlaywrightResponse.make)),
         ),
       goForward: (options) =>
-        use((p) => p.goForward(options)).pipe(
+        use((p) => p.goForward(options), { method: "goForward", options }).pipe(
+          trackNavigation("page.goForward"),
           Effect.map(Option.fromNullable),
           Effect.map(Option.map(PlaywrightResponse.make)),
         ),
-      requestGC: use((p) => p.requestGC()),
-      bringToFront: use((p) => p.bringToFront()),
-      pause: use((p) => p.pause()),
-      close: use((p) => p.close()),
+      requestGC: use((p) => p.requestGC(), { method: "requestGC" }),
+      bringToFront: use((p) => p.bringToFront(), { method: "bringToFront" }),
+      pause: use((p) => p.pause(), { method: "pause" }),
+      close: use((p) => p.close(), { method: "close" }),
       isClosed: () => page.isClosed(),
-      screenshot: (options) => use((p) => p.screenshot(options)),
-      pdf: (options) => use((p) => p.pdf(options)),
+      screenshot: (options) =>
+        use((p) => p.screenshot(options), { method: "screenshot", options }),
+      pdf: (options) => use((p) => p.pdf(options), { method: "pdf", options }),
       dragAndDrop: (source, target, options) =>
-        use((p) => p.dragAndDrop(source, target, options)),
-      click: (selector, options) => use((p) => p.click(selector, options)),
-      emulateMedia: (options) => use((p) => p.emulateMedia(options)),
+        use((p) => p.dragAndDrop(source, target, options), {
+          method: "dragAndDrop",
+          options,
+        }),
+      click: (selector, options) =>
+        use((p) => p.click(selector, options), { method: "click", options }),
+      emulateMedia: (options) =>
+        use((p) => p.emulateMedia(options), {
+          method: "emulateMedia",
+          options,
+        }),
+      waitForEvent: (event, options) =>
+        waitForWithPredicate({
+          map: (raw: PageEvents[typeof event]) => mapEvent(event, raw),
+          predicate: options?.predicate,
+          wait: (predicate, signal) =>
+            use(
+              (p) =>
+                p.waitForEvent(event, {
+                  predicate,
+                  timeout: options?.timeout,
+                  signal,
+                }),
+              { method: "waitForEvent", options },
+            ),
+        }),
+      waitForRequest: (urlOrPredicate, options) =>
+        waitForWithPredicate({
+          map: PlaywrightRequest.make,
+          predicate:
+            typeof urlOrPredicate === "function" ? urlOrPredicate : undefined,
+          wait: (predicate, signal) =>
+            use(
+              (p) =>
+                p.waitForRequest(
+                  typeof urlOrPredicate === "function"
+                    ? (predicate ?? (() => true))
+                    : urlOrPredicate,
+                  { timeout: options?.timeout, signal },
+                ),
+              { method: "waitForRequest", options },
+            ),
+        }),
+      waitForResponse: (urlOrPredicate, options) =>
+        waitForWithPredicate({
+          map: PlaywrightResponse.make,
+          predicate:
+            typeof urlOrPredicate === "function" ? urlOrPredicate : undefined,
+          wait: (predicate, signal) =>
+            use(
+              (p) =>
+                p.waitForResponse(
+                  typeof urlOrPredicate === "function"
+                    ? (predicate ?? (() => true))
+                    : urlOrPredicate,
+                  { timeout: options?.timeout, signal },
+                ),
+              { method: "waitForResponse", options },
+            ),
+        }),
+      eventHub: <K extends keyof PageEvents>(
+        event: K,
+        options?: EventHubOptions,
+      ) =>
+        makeEventHub<ReturnType<(typeof eventMappings)[K]>>(
+          (onEvent, onEnd) => {
+            const onPageEvent = (value: PageEvents[K]) =>
+              onEvent(mapEvent(event, value));
+            page.on(event, onPageEvent);
+            page.once("close", onEnd);
+            return () => {
+              page.off(event, onPageEvent);
+              page.off("close", onEnd);
+            };
+          },
+          options,
+        ),
       eventStream: <K extends keyof PageEvents>(event: K) =>
         Stream.asyncPush<PageEvents[K]>((emit) =>
           Effect.acquireRelease(
@@ -1050,5 +1670,260 @@ export class PlaywrightPage extends Context.Tag(
         ),
       use,
     });
+    pageInternals.set(service, { raw: page, use });
+    return service;
+  }
+
+  /**
+   * Runs `action` and returns its result together with the first response matching
+   * `matcher` that is received while or after the action runs.
+   *
+   * Playwright starts waiting for the response before the action starts, so responses
+   * triggered by the action cannot be missed. Fails with a `Timeout` {@link PlaywrightError}
+   * if no matching response is received within `timeout` milliseconds (defaults to the
+   * page's default timeout), and with a `TargetClosed` error if the page closes first.
+   *
+   * @example
+   * ```ts
+   * const [, response] = yield* PlaywrightPage.withResponse(
+   *   page,
+   *   /\/api\/orders$/,
+   *   page.click("button[type=submit]"),
+   * );
+   * const order = yield* response.json;
+   * ```
+   *
+   * @param page - The page to observe.
+   * @param matcher - A URL glob pattern or regular expression, matched like in
+   * {@link PlaywrightPageService.waitForRequest}, or an `Effect` predicate.
+   * @param action - The effect that triggers the response.
+   * @param options - Optional `timeout` for waiting on the response.
+   * @category custom
+   * @since 0.7.0
+   */
+  static withResponse<A, E, R, E2 = never, R2 = never>(
+    page: PlaywrightPageService,
+    matcher:
+      | string
+      | RegExp
+      | ((response: PlaywrightResponse) => Effect.Effect<boolean, E2, R2>),
+    action: Effect.Effect<A, E, R>,
+    options?: { readonly timeout?: number },
+  ): Effect.Effect<[A, PlaywrightResponse], E | E2 | PlaywrightError, R | R2> {
+    return Effect.scoped(
+      Effect.gen(function* () {
+        const { use } = yield* internalsOf(page);
+        const waiting = yield* Deferred.make<void>();
+        const response = yield* waitForWithPredicate({
+          map: PlaywrightResponse.make,
+          predicate: typeof matcher === "function" ? matcher : undefined,
+          wait: (predicate, signal) =>
+            use(
+              (p) => {
+                const response = p.waitForResponse(
+                  typeof matcher === "function"
+                    ? (predicate ?? (() => true))
+                    : matcher,
+                  { timeout: options?.timeout, signal },
+                );
+                Deferred.unsafeDone(waiting, Exit.void);
+                return response;
+              },
+              { method: "waitForResponse", options },
+            ),
+        }).pipe(Effect.forkScoped);
+
+        // a waiter that fails before it is set up never completes `waiting`
+        yield* Effect.raceFirst(
+          Deferred.await(waiting),
+          Effect.asVoid(Fiber.join(response)),
+        );
+        const result = yield* action;
+        return [result, yield* Fiber.join(response)] as [A, PlaywrightResponse];
+      }),
+    );
+  }
+
+  /**
+   * Re-runs `check` on the given schedule until it returns `Some`, and returns its value.
+   * This is an Effect-side alternative to {@link PlaywrightPageService.waitForFunction}
+   * for conditions that need more than a single in-page function, e.g. a combination of
+   * locator queries.
+   *
+   * The page is checked before every attempt: if it was closed, `waitUntil` fails with a
+   * `TargetClosed` {@link PlaywrightError} instead of retrying. An attempt that is running
+   * when the page closes is not interrupted, so its failure is propagated as usual.
+   * Fails with a `Timeout` error if the schedule ends before `check` returned `Some`.
+   * Failures of `check` are propagated unchanged.
+   *
+   * @example
+   * ```ts
+   * const total = yield* PlaywrightPage.waitUntil(
+   *   page,
+   *   page.locator("#total").textContent().pipe(
+   *     Effect.map((text) => Option.filter(Option.fromNullable(text), (t) => t !== "…")),
+   *   ),
+   *   Schedule.spaced("100 millis").pipe(Schedule.upTo("5 seconds")),
+   * );
+   * ```
+   *
+   * @param page - The page the condition depends on.
+   * @param check - The effect to re-run.
+   * @param schedule - The schedule for the retries.
+   * @category custom
+   * @since 0.7.0
+   */
+  static waitUntil<A, E, R, Out, R2 = never>(
+    page: PlaywrightPageService,
+    check: Effect.Effect<Option.Option<A>, E, R>,
+    schedule: Schedule.Schedule<Out, unknown, R2>,
+  ): Effect.Effect<A, E | PlaywrightError, R | R2> {
+    const failWith = (reason: "TargetClosed" | "Timeout", message: string) =>
+      new PlaywrightError({
+        reason,
+        cause: new Error(message),
+        operation: "page.waitUntil",
+      });
+
+    const attempt = Effect.suspend(
+      (): Effect.Effect<A, E | PlaywrightError | ConditionPending, R> =>
+        page.isClosed()
+          ? Effect.fail(
+              failWith(
+                "TargetClosed",
+                "Page closed while waiting for condition",
+              ),
+            )
+          : Effect.flatMap(
+              check,
+              Option.match({
+                onNone: () => Effect.fail(new ConditionPending()),
+                onSome: Effect.succeed,
+              }),
+            ),
+    );
+
+    return Effect.retry(attempt, {
+      schedule,
+      while: (error) => error instanceof ConditionPending,
+    }).pipe(
+      Effect.catchIf(
+        (error): error is ConditionPending => error instanceof ConditionPending,
+        () =>
+          Effect.fail(
+            failWith(
+              "Timeout",
+              "Condition was not met before the schedule ended",
+            ),
+          ),
+      ),
+    );
+  }
+
+  /**
+   * Runs `action` and fails fast when the page reports an error while it runs.
+   *
+   * Uncaught exceptions fail with an {@link UncaughtPageError} and page crashes with a
+   * {@link PageCrashedError}. With `consoleErrors`, console messages of type `"error"` fail
+   * with a {@link PageConsoleError}, and with `requestFailed`, failed requests fail with a
+   * {@link PageRequestFailedError}. The action is interrupted as soon as one of these
+   * errors occurs.
+   *
+   * Errors that happened before the action started are ignored, unless `includeExisting`
+   * is set, in which case the errors returned by {@link PlaywrightPageService.pageErrors}
+   * and {@link PlaywrightPageService.consoleMessages} are checked first.
+   *
+   * @example
+   * ```ts
+   * yield* PlaywrightPage.failOnPageError(
+   *   page,
+   *   Effect.gen(function* () {
+   *     yield* page.goto("https://example.com");
+   *     yield* page.click("button");
+   *   }),
+   *   { consoleErrors: true },
+   * );
+   * ```
+   *
+   * @param page - The page to observe.
+   * @param action - The effect to run.
+   * @param options - Which additional events should fail the action.
+   * @category custom
+   * @since 0.7.0
+   */
+  static failOnPageError<A, E, R>(
+    page: PlaywrightPageService,
+    action: Effect.Effect<A, E, R>,
+    options?: {
+      readonly consoleErrors?: boolean;
+      readonly requestFailed?: boolean;
+      readonly includeExisting?: boolean;
+    },
+  ): Effect.Effect<A, E | PageFailure | PlaywrightError, R> {
+    return Effect.scoped(
+      Effect.gen(function* () {
+        const { raw } = yield* internalsOf(page);
+        const failures: Array<Stream.Stream<PageFailure>> = [
+          Mailbox.toStream(yield* subscribe(raw, "pageerror")).pipe(
+            Stream.map((error) => uncaughtPageError(raw, error)),
+          ),
+          Mailbox.toStream(yield* subscribe(raw, "crash")).pipe(
+            Stream.map(() => new PageCrashedError({ url: raw.url() })),
+          ),
+        ];
+        if (options?.consoleErrors) {
+          failures.push(
+            Mailbox.toStream(yield* subscribe(raw, "console")).pipe(
+              Stream.filter((message) => message.type() === "error"),
+              Stream.map((message) => pageConsoleError(raw, message)),
+            ),
+          );
+        }
+        if (options?.requestFailed) {
+          failures.push(
+            Mailbox.toStream(yield* subscribe(raw, "requestfailed")).pipe(
+              Stream.map(
+                (request) =>
+                  new PageRequestFailedError({
+                    url: request.url(),
+                    method: request.method(),
+                    failure: request.failure()?.errorText ?? "unknown",
+                  }),
+              ),
+            ),
+          );
+        }
+
+        if (options?.includeExisting) {
+          const [error] = yield* page.pageErrors();
+          if (error) {
+            return yield* uncaughtPageError(raw, error);
+          }
+          if (options.consoleErrors) {
+            const message = (yield* page.consoleMessages()).find(
+              (message) => message.type() === "error",
+            );
+            if (message) {
+              return yield* pageConsoleError(raw, message);
+            }
+          }
+        }
+
+        const watcher = Stream.mergeAll(failures, {
+          concurrency: "unbounded",
+        }).pipe(
+          Stream.runHead,
+          Effect.flatMap(
+            Option.match({
+              // the page closed without errors
+              onNone: () => Effect.never,
+              onSome: Effect.fail,
+            }),
+          ),
+        );
+
+        return yield* Effect.raceFirst(action, watcher);
+      }),
+    );
   }
 }
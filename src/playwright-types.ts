@@ -1,4 +1,4 @@
-import type { ElementHandle, JSHandle } from "playwright-core";
+import type { ConsoleMessage, ElementHandle, JSHandle } from "playwright-core";
 
 /**
  * Extracted from `playwright-core/types/structs.d.ts` because it is not exported over the package boundary.
@@ -15,7 +15,17 @@ export type NoHandles<Arg> = Arg extends JSHandle
         ? { [Key in keyof Arg]: NoHandles<Arg[Key]> }
         : Arg;
 
-export type Unboxed<Arg> =
+/**
+ * The type of an `evaluate` argument inside the page. Handles, including the wrapped
+ * handles of this library, are replaced by the objects they reference.
+ */
+export type Unboxed<Arg> = Arg extends { readonly _raw: ElementHandle<infer T> }
+  ? T
+  : Arg extends { readonly _raw: JSHandle<infer T> }
+    ? T
+    : UnboxedRaw<Arg>;
+
+type UnboxedRaw<Arg> =
   Arg extends ElementHandle<infer T>
     ? T
     : Arg extends JSHandle<infer T>
@@ -40,10 +50,32 @@ export type Unboxed<Arg> =
                         ? { [Key in keyof Arg]: Unboxed<Arg[Key]> }
                         : Arg;
 
+/**
+ * A function evaluated in the page, or its source as a string. It receives the
+ * unboxed `evaluate` argument.
+ */
 export type PageFunction<Arg, R> =
   | string
   | ((arg: Unboxed<Arg>) => R | Promise<R>);
 
+/**
+ * Like {@link PageFunction}, but evaluated on a handle or the elements of a locator,
+ * which are passed as the first parameter, before the unboxed argument.
+ */
+export type PageFunctionOn<On, Arg2, R> =
+  | string
+  | ((on: On, arg2: Unboxed<Arg2>) => R | Promise<R>);
+
+/**
+ * The source location of a {@link PlaywrightConsoleMessage}.
+ *
+ * @category model
+ * @since 0.7.0
+ */
+export type PlaywrightConsoleMessageLocation = ReturnType<
+  ConsoleMessage["location"]
+>;
+
 /**
  * A type helper to patch the `on`, `off`, and `once` methods of a Playwright object
  * to support a specific set of events with correctly typed listeners.
@@ -67,3 +99,19 @@ export type PatchedEvents<Original, Events> = Original & {
     listener: (arg: Events[K]) => void,
   ): PatchedEvents<Original, Events>;
 };
+
+/**
+ * Like {@link PatchedEvents}, but for the `waitForEvent` method.
+ *
+ * @internal
+ */
+export type PatchedWaitForEvent<Original, Events> = Original & {
+  waitForEvent<K extends keyof Events>(
+    event: K,
+    options?: {
+      predicate?: (arg: Events[K]) => boolean | Promise<boolean>;
+      timeout?: number;
+      signal?: AbortSignal;
+    },
+  ): Promise<Events[K]>;
+};
@@ -1,18 +1,26 @@
 import { Context, Effect, Layer, type Scope } from "effect";
 import {
+  type APIRequest,
   type BrowserType,
   type ConnectOverCDPOptions,
   chromium,
+  request,
 } from "playwright-core";
-
+import {
+  PlaywrightAPIRequest,
+  type PlaywrightAPIRequestService,
+} from "./api-request";
 import { type LaunchOptions, PlaywrightBrowser } from "./browser";
 import { PlaywrightBrowserContext } from "./browser-context";
 import { type PlaywrightError, wrapError } from "./errors";
+import { trackContext } from "./utils";
 
 type LaunchPersistentContextOptions = Parameters<
   BrowserType["launchPersistentContext"]
 >[1];
 
+type NewRequestContextOptions = Parameters<APIRequest["newContext"]>[0];
+
 /**
  * @category model
  * @since 0.1.0
@@ -240,6 +248,48 @@ export interface PlaywrightService {
     PlaywrightError,
     Scope.Scope
   >;
+  /**
+   * Creates a new API request context that can be used to send HTTP requests
+   * without a browser, e.g. to seed backend state before UI steps.
+   *
+   * It is the caller's responsibility to dispose the context when no longer needed.
+   * For automatic scope-based management, use {@link newRequestContextScoped} instead.
+   *
+   * @param options - Optional options for the request context (e.g. `baseURL`, `extraHTTPHeaders`).
+   * @see {@link APIRequest.newContext}
+   * @since 0.7.0
+   */
+  newRequestContext: (
+    options?: NewRequestContextOptions,
+  ) => Effect.Effect<PlaywrightAPIRequestService, PlaywrightError>;
+  /**
+   * Creates a new API request context managed by a Scope.
+   *
+   * The context is disposed automatically when the scope is closed.
+   *
+   * ```ts
+   * import { Playwright } from "effect-playwright";
+   * import { Effect } from "effect";
+   *
+   * const program = Effect.gen(function* () {
+   *   const playwright = yield* Playwright;
+   *   const request = yield* playwright.newRequestContextScoped({
+   *     baseURL: "https://staging.example.com",
+   *   });
+   *
+   *   yield* request.post("/api/seed", { data: { users: 3 } });
+   * }).pipe(Effect.scoped);
+   *
+   * await Effect.runPromise(program);
+   * ```
+   *
+   * @param options - Optional options for the request context (e.g. `baseURL`, `extraHTTPHeaders`).
+   * @see {@link APIRequest.newContext}
+   * @since 0.7.0
+   */
+  newRequestContextScoped: (
+    options?: NewRequestContextOptions,
+  ) => Effect.Effect<PlaywrightAPIRequestService, PlaywrightError, Scope.Scope>;
 }
 
 const launch: (
@@ -282,10 +332,24 @@ const launchPersistentContext: (
       try: () => browserType.launchPersistentContext(userDataDir, options),
       catch: wrapError,
     });
+    yield* trackContext(rawContext);
 
     return PlaywrightBrowserContext.make(rawContext);
   });
 
+const newRequestContext: (
+  options?: NewRequestContextOptions,
+) => Effect.Effect<PlaywrightAPIRequestService, PlaywrightError> = Effect.fn(
+  function* (options?: NewRequestContextOptions) {
+    const rawRequest = yield* Effect.tryPromise({
+      try: () => request.newContext(options),
+      catch: wrapError,
+    });
+
+    return PlaywrightAPIRequest.make(rawRequest);
+  },
+);
+
 /**
  * @category tag
  * @since 0.1.0
@@ -313,5 +377,10 @@ export class Playwright extends Context.Tag(
       Effect.acquireRelease(connectCDP(cdpUrl, options), (browser) =>
         browser.close.pipe(Effect.ignore),
       ),
+    newRequestContext,
+    newRequestContextScoped: (options) =>
+      Effect.acquireRelease(newRequestContext(options), (request) =>
+        request.dispose().pipe(Effect.ignore),
+      ),
   });
 }
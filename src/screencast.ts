@@ -93,19 +93,32 @@ export class PlaywrightScreencast extends Context.Tag(
    * @category constructor
    */
   static make(screencast: Screencast): PlaywrightScreencastService {
-    const use = useHelper(screencast);
+    const use = useHelper(screencast, { name: "screencast" });
     return PlaywrightScreencast.of({
-      start: (options) => use((s) => s.start(options).then(() => {})),
-      stop: use((s) => s.stop()),
+      start: (options) =>
+        use((s) => s.start(options).then(() => {}), {
+          method: "start",
+          options,
+        }),
+      stop: use((s) => s.stop(), { method: "stop" }),
       showActions: (options) =>
-        use((s) => s.showActions(options).then(() => {})),
-      hideActions: use((s) => s.hideActions()),
+        use((s) => s.showActions(options).then(() => {}), {
+          method: "showActions",
+          options,
+        }),
+      hideActions: use((s) => s.hideActions(), { method: "hideActions" }),
       showChapter: (title, options) =>
-        use((s) => s.showChapter(title, options)),
+        use((s) => s.showChapter(title, options), {
+          method: "showChapter",
+          options,
+        }),
       showOverlay: (html, options) =>
-        use((s) => s.showOverlay(html, options).then(() => {})),
-      showOverlays: use((s) => s.showOverlays()),
-      hideOverlays: use((s) => s.hideOverlays()),
+        use((s) => s.showOverlay(html, options).then(() => {}), {
+          method: "showOverlay",
+          options,
+        }),
+      showOverlays: use((s) => s.showOverlays(), { method: "showOverlays" }),
+      hideOverlays: use((s) => s.hideOverlays(), { method: "hideOverlays" }),
     });
   }
 }
@@ -0,0 +1,73 @@
+import { assert, describe, it } from "@effect/vitest";
+import { Effect, Tracer } from "effect";
+import { PlaywrightTelemetry } from "./telemetry";
+import { useHelper } from "./utils";
+
+const recordSpans = Effect.gen(function* () {
+  const native = yield* Effect.tracer;
+  const spans: Array<Tracer.Span> = [];
+  const tracer = Tracer.make({
+    span: (...args) => {
+      const span = native.span(...args);
+      spans.push(span);
+      return span;
+    },
+    context: native.context,
+  });
+  return { spans, tracer };
+});
+
+const fakePage = {
+  url: () => "http://example.test/",
+  goto: (_url: string, _options?: { timeout?: number }) =>
+    Promise.resolve({ status: () => 201 }),
+};
+
+describe("PlaywrightTelemetry", () => {
+  it.effect("should not create spans by default", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = yield* recordSpans;
+      const use = useHelper(fakePage, { name: "page" });
+
+      yield* use((p) => p.goto("http://example.test/"), {
+        method: "goto",
+      }).pipe(Effect.withTracer(tracer));
+
+      assert.strictEqual(spans.length, 0);
+    }),
+  );
+
+  it.effect("layer should create a span for every operation", () =>
+    Effect.gen(function* () {
+      const { spans, tracer } = yield* recordSpans;
+      const use = useHelper(fakePage, {
+        name: "page",
+        target: (p) => p.url(),
+      });
+      const options = { timeout: 500 };
+
+      yield* use((p) => p.goto("http://example.test/", options), {
+        method: "goto",
+        options,
+      }).pipe(
+        Effect.withTracer(tracer),
+        Effect.provide(PlaywrightTelemetry.layer),
+      );
+
+      assert.strictEqual(spans.length, 1);
+      const [span] = spans;
+      assert.strictEqual(span.name, "Page.goto");
+      assert.strictEqual(span.kind, "client");
+      assert.strictEqual(
+        span.attributes.get("playwright.operation"),
+        "page.goto",
+      );
+      assert.strictEqual(span.attributes.get("playwright.timeout"), 500);
+      assert.strictEqual(
+        span.attributes.get("playwright.url"),
+        "http://example.test/",
+      );
+      assert.strictEqual(span.attributes.get("playwright.status"), 201);
+    }),
+  );
+});
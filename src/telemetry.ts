@@ -0,0 +1,52 @@
+import { Context, Layer } from "effect";
+
+/**
+ * @category model
+ * @since 0.7.0
+ */
+export interface PlaywrightTelemetryService {
+  /**
+   * Whether Playwright operations are wrapped in spans.
+   */
+  readonly enabled: boolean;
+}
+
+/**
+ * Controls whether Playwright operations are traced. Tracing is disabled by default.
+ *
+ * When enabled, every wrapped Playwright call (e.g. `page.goto`, `locator.click` or
+ * `context.newPage`) runs inside a span named after the operation, such as `Page.goto`.
+ * Spans carry the following attributes where available:
+ *
+ * - `playwright.operation`: the operation, e.g. `"page.goto"`
+ * - `playwright.url`: the URL of the page, frame or request
+ * - `playwright.selector`: the locator description
+ * - `playwright.timeout`: the `timeout` option passed to the operation
+ * - `playwright.status`: the HTTP status of the returned response
+ * - `playwright.error.reason`: the {@link PlaywrightErrorReason} of a failure
+ *
+ * The spans are exported by whatever tracer is installed, e.g. by `@effect/opentelemetry`.
+ *
+ * @example
+ * ```ts
+ * const program = Effect.gen(function* () {
+ *   const page = yield* browser.newPage();
+ *   yield* page.goto("https://example.com");
+ * }).pipe(Effect.withSpan("checkout"), Effect.provide(PlaywrightTelemetry.layer));
+ * ```
+ *
+ * @category tag
+ * @since 0.7.0
+ */
+export class PlaywrightTelemetry extends Context.Reference<PlaywrightTelemetry>()(
+  "effect-playwright/PlaywrightTelemetry",
+  { defaultValue: (): PlaywrightTelemetryService => ({ enabled: false }) },
+) {
+  /**
+   * Enables spans for all Playwright operations.
+   *
+   * @category layer
+   * @since 0.7.0
+   */
+  static readonly layer = Layer.succeed(PlaywrightTelemetry, { enabled: true });
+}
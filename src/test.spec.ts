@@ -1,11 +1,20 @@
 import { test as base } from "@playwright/test";
 import { Context, Data, Effect, Layer } from "effect";
 import {
+  PlaywrightAPIRequest,
   PlaywrightBrowser,
   PlaywrightBrowserContext,
+  PlaywrightExpect,
   PlaywrightPage,
 } from "effect-playwright";
-import { expect, layer, makeMethods, test } from "effect-playwright/test";
+import {
+  expect,
+  fixtureService,
+  layer,
+  makeMethods,
+  type PlaywrightWorkerOptions,
+  test,
+} from "effect-playwright/test";
 
 class ExpectedTestError extends Data.TaggedError("ExpectedTestError") {}
 
@@ -21,6 +30,21 @@ class AnonymousValue extends Context.Tag("AnonymousValue")<
   string
 >() {}
 
+class FixtureValue extends Context.Tag("FixtureValue")<
+  FixtureValue,
+  string
+>() {}
+
+class FixtureLength extends Context.Tag("FixtureLength")<
+  FixtureLength,
+  number
+>() {}
+
+class FixtureBrowserName extends Context.Tag("FixtureBrowserName")<
+  FixtureBrowserName,
+  PlaywrightWorkerOptions["browserName"]
+>() {}
+
 class CustomLayerValue extends Context.Tag("CustomLayerValue")<
   CustomLayerValue,
   string
@@ -152,6 +176,46 @@ customTest.layer(Layer.succeed(CustomLayerValue, "custom layer"))(
   },
 );
 
+const serviceTest = makeMethods(
+  base.extend<{ value: string }>({
+    // biome-ignore lint/correctness/noEmptyPattern: Playwright requires fixture object destructuring.
+    value: async ({}, use) => use("fixture service"),
+  }),
+  {
+    value: FixtureValue,
+    request: fixtureService(PlaywrightAPIRequest, PlaywrightAPIRequest.make),
+  },
+);
+
+serviceTest.effect("provides fixtures as Effect services", () =>
+  Effect.gen(function* () {
+    expect(yield* FixtureValue).toBe("fixture service");
+    const request = yield* PlaywrightAPIRequest;
+    expect(typeof request.get).toBe("function");
+  }),
+);
+
+const mergedServiceTest = makeMethods(serviceTest, {
+  browserName: FixtureBrowserName,
+});
+
+mergedServiceTest.effect("merges the services of makeMethods calls", () =>
+  Effect.gen(function* () {
+    expect(yield* FixtureValue).toBe("fixture service");
+    expect(yield* FixtureBrowserName).toBe("chromium");
+  }),
+);
+
+serviceTest.layer(
+  Layer.effect(FixtureLength, Effect.succeed("fixture service".length)),
+)("fixture services in layers", (it) => {
+  it.effect("combines fixture services and layer services", () =>
+    Effect.gen(function* () {
+      expect((yield* FixtureValue).length).toBe(yield* FixtureLength);
+    }),
+  );
+});
+
 test.effect("supports test details", { tag: "@effect" }, () => Effect.void);
 
 test("exposes every Effect modifier", async () => {
@@ -169,3 +233,52 @@ test.effect.fail(
   "supports expected Effect failures",
   () => new ExpectedTestError(),
 );
+
+test.describe("soft assertions", () => {
+  // biome-ignore lint/correctness/noEmptyPattern: Playwright requires fixture object destructuring.
+  test.afterEach(({}, testInfo) => {
+    const messages = testInfo.errors.map(({ message }) => message ?? "");
+    // the failure is only expected once every soft failure is reported exactly once
+    testInfo.fail(
+      messages.length === 2 &&
+        messages[0]?.includes("toHaveTitle") === true &&
+        messages[1]?.includes("toHaveCount") === true,
+      `errors: ${messages.join(" | ")}`,
+    );
+  });
+
+  test.effect("reports every failed soft assertion", () =>
+    Effect.gen(function* () {
+      const page = yield* PlaywrightPage;
+      yield* page.setContent("<title>Soft</title><p>one</p>");
+      yield* PlaywrightExpect.softly(
+        Effect.gen(function* () {
+          yield* PlaywrightExpect.toHaveTitle(page, "Hard", {
+            timeout: "100 millis",
+          });
+          yield* PlaywrightExpect.toHaveCount(page.locator("p"), 2, {
+            timeout: "100 millis",
+          });
+        }),
+      );
+    }),
+  );
+});
+
+test.describe("failure artifacts", () => {
+  test.use({ effectFailureArtifacts: { cause: true, content: true } });
+  // biome-ignore lint/correctness/noEmptyPattern: Playwright requires fixture object destructuring.
+  test.afterEach(({}, testInfo) => {
+    const names = testInfo.attachments.map(({ name }) => name).join(", ");
+    // the failure is only expected once the enabled artifacts are attached
+    testInfo.fail(
+      names === "effect-cause, page-content",
+      `attachments: ${names}`,
+    );
+  });
+
+  test.effect(
+    "attaches artifacts when the test fails",
+    () => new ExpectedTestError(),
+  );
+});
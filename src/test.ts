@@ -22,6 +22,7 @@ import {
 } from "@playwright/test";
 import {
   Cause,
+  Chunk,
   Context,
   Duration,
   Effect,
@@ -32,6 +33,7 @@ import {
 } from "effect";
 import { PlaywrightBrowser } from "./browser";
 import { PlaywrightBrowserContext } from "./browser-context";
+import { type AssertionError, SoftAssertionErrors } from "./errors";
 import { PlaywrightPage } from "./page";
 
 export * from "@playwright/test";
@@ -157,27 +159,92 @@ interface NestedLayerOptions {
   readonly timeout?: Duration.DurationInput;
 }
 
-interface LayerRegistration<T extends object, W extends object, R> {
-  (f: (test: LayerTestMethods<T, W, R>) => void): void;
-  (name: string, f: (test: LayerTestMethods<T, W, R>) => void): void;
+interface LayerRegistration<T extends object, W extends object, R, S> {
+  (f: (test: LayerTestMethods<T, W, R, S>) => void): void;
+  (name: string, f: (test: LayerTestMethods<T, W, R, S>) => void): void;
 }
 
-type LayerTestMethods<T extends object, W extends object, R> = TestType<
+type LayerTestMethods<T extends object, W extends object, R, S> = TestType<
   T,
   W
 > & {
-  readonly effect: EffectTester<T & W, R>;
-  readonly scoped: EffectTester<T & W, R>;
+  readonly effect: EffectTester<T & W, R | S>;
+  readonly scoped: EffectTester<T & W, R | S>;
   readonly layer: <R2, E>(
     layer: Layer.Layer<R2, E, R>,
     options?: NestedLayerOptions,
-  ) => LayerRegistration<T, W, R | R2>;
+  ) => LayerRegistration<T, W, R | R2, S>;
 };
 
-type LayerMethod<T extends object, W extends object> = <R, E>(
+type LayerMethod<T extends object, W extends object, S = never> = <R, E>(
   layer: Layer.Layer<R, E>,
   options?: LayerOptions,
-) => LayerRegistration<T, W, R>;
+) => LayerRegistration<T, W, R, S>;
+
+/**
+ * Maps a Playwright fixture to the service of an Effect `Context.Tag`.
+ *
+ * @see {@link makeMethods}
+ * @since 0.7.0
+ */
+export interface FixtureService<A, I, S> {
+  readonly tag: Context.Tag<I, S>;
+  readonly make: (fixture: A) => S;
+}
+
+/**
+ * Creates a {@link FixtureService} that provides `tag` with the result of `make`,
+ * for fixtures whose value has to be wrapped before it can be used as the service.
+ *
+ * @example
+ * ```ts
+ * import { PlaywrightAPIRequest } from "effect-playwright";
+ * import { fixtureService, makeMethods } from "effect-playwright/test";
+ *
+ * const test = makeMethods(base, {
+ *   request: fixtureService(PlaywrightAPIRequest, PlaywrightAPIRequest.make),
+ * });
+ * ```
+ *
+ * @since 0.7.0
+ */
+export const fixtureService = <A, I, S>(
+  tag: Context.Tag<I, S>,
+  make: (fixture: A) => S,
+): FixtureService<A, I, S> => ({ tag, make });
+
+/**
+ * Checks a mapping `M` from fixture names to the Effect services they provide. A
+ * fixture is either mapped to a `Context.Tag` whose service is the fixture value, or
+ * to a {@link FixtureService}. Names that are not fixtures of `Args` are rejected.
+ *
+ * @see {@link makeMethods}
+ * @since 0.7.0
+ */
+export type FixtureServices<Args extends object, M> = {
+  readonly [K in keyof M]: K extends keyof Args
+    ? M[K] extends { readonly tag: Context.Tag<infer I, infer S> }
+      ? FixtureService<Args[K], I, S>
+      : M[K] extends Context.Tag<infer I, infer _>
+        ? Context.Tag<I, Args[K]>
+        :
+            | Context.Tag<unknown, Args[K]>
+            | FixtureService<Args[K], unknown, unknown>
+    : never;
+};
+
+/**
+ * The services provided by a {@link FixtureServices} mapping.
+ *
+ * @since 0.7.0
+ */
+export type FixtureServicesContext<M> = {
+  [K in keyof M]-?: M[K] extends { readonly tag: Context.Tag<infer I, infer _> }
+    ? I
+    : M[K] extends Context.Tag<infer I, infer _>
+      ? I
+      : never;
+}[keyof M];
 
 /**
  * A Playwright `TestType` enhanced with Effect-based registration methods.
@@ -203,16 +270,67 @@ type LayerMethod<T extends object, W extends object> = <R, E>(
 export type PlaywrightTestMethods<
   T extends object,
   W extends object,
+  S = never,
 > = TestType<T, W> & {
-  readonly effect: EffectTester<T & W>;
-  readonly layer: LayerMethod<T, W>;
+  readonly effect: EffectTester<T & W, S>;
+  readonly layer: LayerMethod<T, W, S>;
 };
 
+/**
+ * A `TestType` that `makeMethods` may already have augmented with the services `S`,
+ * e.g. the `test` of `@playwright/test` once this module is imported.
+ */
+type AugmentableTestType<T extends object, W extends object, S> = TestType<
+  T,
+  W
+> & { readonly effect?: EffectTester<object, S> };
+
+/**
+ * Artifacts that are attached to the `TestInfo` when a `test.effect` body fails.
+ * All of them are disabled by default.
+ *
+ * When a test times out, the page artifacts are captured before the test is
+ * interrupted. Each artifact is skipped if it cannot be captured within 5 seconds.
+ *
+ * @see {@link EffectTestOptions}
+ * @since 0.7.0
+ */
+export interface FailureArtifactsOptions {
+  /** Attach a full-page screenshot of the test page. */
+  readonly screenshot?: boolean;
+  /** Attach the HTML content of the test page. */
+  readonly content?: boolean;
+  /** Attach the ARIA snapshot of the test page. */
+  readonly ariaSnapshot?: boolean;
+  /** Attach the pretty-printed Effect `Cause`, including the span stack. */
+  readonly cause?: boolean;
+}
+
+/**
+ * Options of Effect-based Playwright tests, which can be set with `test.use` or in
+ * the `use` section of the Playwright config.
+ *
+ * @example
+ * ```ts
+ * import { test } from "effect-playwright/test";
+ *
+ * test.use({
+ *   effectFailureArtifacts: { screenshot: true, ariaSnapshot: true, cause: true },
+ * });
+ * ```
+ *
+ * @since 0.7.0
+ */
+export interface EffectTestOptions {
+  readonly effectFailureArtifacts: FailureArtifactsOptions;
+}
+
 interface EffectRunner {
   readonly abortController: AbortController;
   readonly context: Context.Context<
     Exclude<PlaywrightTestEnvironment, Scope.Scope>
   >;
+  readonly failureArtifacts: FailureArtifactsOptions;
   readonly running: Set<Promise<unknown>>;
   closed: boolean;
 }
@@ -221,8 +339,16 @@ interface InternalFixtures {
   readonly _effectPlaywrightRuntime: EffectRunner;
 }
 
+type ServiceEntry = readonly [
+  name: string,
+  service:
+    | Context.Tag<unknown, unknown>
+    | FixtureService<unknown, unknown, unknown>,
+];
+
 const activeRunners = new WeakMap<TestInfo, EffectRunner>();
-const augmentedTesters = new WeakMap<object, EffectTester<object>>();
+/** The fixture services of the TestTypes augmented by `makeMethods`. */
+const augmentedTestTypes = new WeakMap<object, ReadonlyArray<ServiceEntry>>();
 const noActiveRuntimeMessage =
   "effect-playwright/test: no active Effect runtime for this test";
 
@@ -245,33 +371,141 @@ const runPromise = <A, E>(
     { signal },
   );
 
-type EffectTransform<R> = <A, E>(
-  effect: Effect.Effect<A, E, PlaywrightTestEnvironment | R>,
-) => Effect.Effect<A, E, PlaywrightTestEnvironment>;
+/**
+ * Reports the failures collected by `PlaywrightExpect.softly` to the test, so that
+ * Playwright reports each of them once instead of only the aggregated error.
+ * Playwright appends the thrown error, i.e. the first failure of the cause, after the
+ * ones added to `testInfo.errors`, so an aggregated error in that position is replaced
+ * by its last failure.
+ */
+const reportSoftAssertionErrors = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  testInfo: TestInfo,
+): Effect.Effect<A, E | AssertionError, R> =>
+  Effect.catchAllCause(effect, (cause) => {
+    const failures = Chunk.toReadonlyArray(Cause.failures(cause));
+    const thrown = failures[0];
+    return Effect.sync(() => {
+      for (const failure of failures) {
+        if (failure instanceof SoftAssertionErrors) {
+          const errors =
+            failure === thrown ? failure.errors.slice(0, -1) : failure.errors;
+          for (const error of errors) {
+            testInfo.errors.push({
+              message: error.message,
+              stack: error.stack,
+            });
+          }
+        }
+      }
+    }).pipe(
+      Effect.zipRight(
+        Effect.failCause(
+          Cause.map(cause, (error): E | AssertionError =>
+            error === thrown && error instanceof SoftAssertionErrors
+              ? (error.errors.at(-1) ?? error)
+              : error,
+          ),
+        ),
+      ),
+    );
+  });
+
+/** Bounds the capture of each artifact, e.g. when the page stopped responding. */
+const artifactTimeout = Duration.seconds(5);
+
+/**
+ * Attaches the artifacts enabled in {@link FailureArtifactsOptions} to the test.
+ * Failing to capture an artifact does not affect the test result.
+ */
+const attachArtifacts = (
+  runner: EffectRunner,
+  testInfo: TestInfo,
+  cause: Cause.Cause<unknown> | undefined,
+): Effect.Effect<void> => {
+  const options = runner.failureArtifacts;
+  const page = Context.get(runner.context, PlaywrightPage);
+  const attach = (
+    name: string,
+    contentType: string,
+    body: Effect.Effect<string | Buffer, unknown>,
+  ) =>
+    body.pipe(
+      Effect.timeout(artifactTimeout),
+      Effect.flatMap((body) =>
+        Effect.tryPromise(() => testInfo.attach(name, { body, contentType })),
+      ),
+      Effect.ignore,
+    );
+
+  return Effect.all(
+    [
+      options.cause && cause !== undefined
+        ? attach(
+            "effect-cause",
+            "text/plain",
+            Effect.sync(() => Cause.pretty(cause, { renderErrorCause: true })),
+          )
+        : Effect.void,
+      options.screenshot
+        ? attach("screenshot", "image/png", page.screenshot({ fullPage: true }))
+        : Effect.void,
+      options.content
+        ? attach("page-content", "text/html", page.content)
+        : Effect.void,
+      options.ariaSnapshot
+        ? attach("aria-snapshot", "text/plain", page.ariaSnapshot())
+        : Effect.void,
+    ],
+    { discard: true },
+  );
+};
 
-const withoutLayer: EffectTransform<never> = (effect) => effect;
+/**
+ * Attaches the failure artifacts when the effect fails. Timed out tests are
+ * interrupted after their artifacts were captured by the runtime fixture.
+ */
+const attachFailureArtifacts = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  runner: EffectRunner,
+  testInfo: TestInfo,
+): Effect.Effect<A, E, R> =>
+  Effect.tapErrorCause(effect, (cause) =>
+    Cause.isInterruptedOnly(cause)
+      ? Effect.void
+      : attachArtifacts(runner, testInfo, cause),
+  );
 
-const makeEffectTest = <Args extends object, R>(
+type EffectTransform<R, S> = <A, E>(
+  effect: Effect.Effect<A, E, PlaywrightTestEnvironment | R | S>,
+) => Effect.Effect<A, E, PlaywrightTestEnvironment | S>;
+
+const withoutLayer =
+  <S>(): EffectTransform<never, S> =>
+  (effect) =>
+    effect;
+
+const makeEffectTest = <Args extends object, R, S>(
   register: (
     title: string,
     details: TestDetails | undefined,
     body: (args: Args, testInfo: TestInfo) => Promise<void>,
   ) => void,
-  transform: EffectTransform<R>,
-): EffectTest<Args, R> => {
+  transform: EffectTransform<R, S>,
+): EffectTest<Args, R | S> => {
   function effectTest<A, E>(
     title: string,
-    body: EffectTestFunction<Args, A, E, R>,
+    body: EffectTestFunction<Args, A, E, R | S>,
   ): void;
   function effectTest<A, E>(
     title: string,
     details: TestDetails,
-    body: EffectTestFunction<Args, A, E, R>,
+    body: EffectTestFunction<Args, A, E, R | S>,
   ): void;
   function effectTest<A, E>(
     title: string,
-    detailsOrBody: TestDetails | EffectTestFunction<Args, A, E, R>,
-    possibleBody?: EffectTestFunction<Args, A, E, R>,
+    detailsOrBody: TestDetails | EffectTestFunction<Args, A, E, R | S>,
+    possibleBody?: EffectTestFunction<Args, A, E, R | S>,
   ): void {
     const details =
       typeof detailsOrBody === "function" ? undefined : detailsOrBody;
@@ -289,7 +523,18 @@ const makeEffectTest = <Args extends object, R>(
 
       const program = transform(
         Effect.suspend(() => body(args, testInfo)),
-      ).pipe(Effect.provide(runner.context), Effect.scoped, Effect.asVoid);
+      ).pipe(
+        // the runner context includes the fixture services of `makeMethods`
+        Effect.provide(
+          runner.context as Context.Context<
+            Exclude<PlaywrightTestEnvironment, Scope.Scope> | S
+          >,
+        ),
+        Effect.scoped,
+        (effect) => reportSoftAssertionErrors(effect, testInfo),
+        (effect) => attachFailureArtifacts(effect, runner, testInfo),
+        Effect.asVoid,
+      );
       const promise = runPromise(program, runner.abortController.signal);
       runner.running.add(promise);
       void promise.then(
@@ -298,6 +543,7 @@ const makeEffectTest = <Args extends object, R>(
       );
       return promise;
     };
+    // Playwright parses the fixtures a test uses from its source, see `runtimeFixture`
     Object.defineProperty(wrapped, "toString", {
       value: () => body.toString(),
     });
@@ -318,13 +564,13 @@ type EffectRegistration<Args extends object> = {
   ): void;
 };
 
-const makeTester = <Args extends object, R>(
+const makeTester = <Args extends object, R, S>(
   effectTestType: TestType<Args & InternalFixtures, object>,
-  transform: EffectTransform<R>,
-): EffectTester<Args, R> => {
+  transform: EffectTransform<R, S>,
+): EffectTester<Args, R | S> => {
   const makeRegistration = (
     method: EffectRegistration<Args & InternalFixtures>,
-  ): EffectTest<Args, R> =>
+  ): EffectTest<Args, R | S> =>
     makeEffectTest((title, details, body) => {
       if (details === undefined) {
         method(title, body);
@@ -336,7 +582,7 @@ const makeTester = <Args extends object, R>(
   const tester = makeRegistration(effectTestType);
   const fail = makeRegistration(effectTestType.fail) as EffectTester<
     Args,
-    R
+    R | S
   >["fail"];
   Object.defineProperties(fail, {
     only: { value: makeRegistration(effectTestType.fail.only) },
@@ -347,15 +593,15 @@ const makeTester = <Args extends object, R>(
     fixme: { value: makeRegistration(effectTestType.fixme) },
     fail: { value: fail },
   });
-  return tester as EffectTester<Args, R>;
+  return tester as EffectTester<Args, R | S>;
 };
 
-const makeLayer = <T extends object, W extends object, R, E>(
+const makeLayer = <T extends object, W extends object, S, R, E>(
   testType: TestType<T, W>,
   effectTestType: TestType<T & W & InternalFixtures, object>,
   layer: Layer.Layer<R, E>,
   options?: LayerOptions,
-): LayerRegistration<T, W, R> => {
+): LayerRegistration<T, W, R, S> => {
   const memoMap = options?.memoMap ?? Effect.runSync(Layer.makeMemoMap);
   const scope = Effect.runSync(Scope.make());
   const runtimeEffect = Layer.toRuntimeWithMemoMap(layer, memoMap).pipe(
@@ -364,27 +610,29 @@ const makeLayer = <T extends object, W extends object, R, E>(
     Effect.cached,
     Effect.runSync,
   );
-  const transform: EffectTransform<R> = (effect) =>
+  const transform: EffectTransform<R, S> = (effect) =>
     Effect.flatMap(runtimeEffect, (runtime) => Effect.provide(effect, runtime));
-  const tester = makeTester<T & W, R>(effectTestType, transform);
+  const tester = makeTester<T & W, R, S>(effectTestType, transform);
 
-  const makeLayerMethods = (): LayerTestMethods<T, W, R> => {
+  const makeLayerMethods = (): LayerTestMethods<T, W, R, S> => {
     const layerTest = testType.bind(undefined);
     Object.assign(layerTest, testType);
     const nestedLayer = <R2, E2>(
       nested: Layer.Layer<R2, E2, R>,
       nestedOptions?: NestedLayerOptions,
-    ): LayerRegistration<T, W, R | R2> =>
-      makeLayer(testType, effectTestType, Layer.provideMerge(nested, layer), {
-        memoMap,
-        timeout: nestedOptions?.timeout,
-      });
+    ): LayerRegistration<T, W, R | R2, S> =>
+      makeLayer<T, W, S, R | R2, E | E2>(
+        testType,
+        effectTestType,
+        Layer.provideMerge(nested, layer),
+        { memoMap, timeout: nestedOptions?.timeout },
+      );
     Object.defineProperties(layerTest, {
       effect: { value: tester },
       layer: { value: nestedLayer },
       scoped: { value: tester },
     });
-    return layerTest as LayerTestMethods<T, W, R>;
+    return layerTest as LayerTestMethods<T, W, R, S>;
   };
 
   const registerHooks = (): void => {
@@ -408,14 +656,14 @@ const makeLayer = <T extends object, W extends object, R, E>(
     );
   };
 
-  function register(f: (test: LayerTestMethods<T, W, R>) => void): void;
+  function register(f: (test: LayerTestMethods<T, W, R, S>) => void): void;
   function register(
     name: string,
-    f: (test: LayerTestMethods<T, W, R>) => void,
+    f: (test: LayerTestMethods<T, W, R, S>) => void,
   ): void;
   function register(
-    nameOrFunction: string | ((test: LayerTestMethods<T, W, R>) => void),
-    possibleFunction?: (test: LayerTestMethods<T, W, R>) => void,
+    nameOrFunction: string | ((test: LayerTestMethods<T, W, R, S>) => void),
+    possibleFunction?: (test: LayerTestMethods<T, W, R, S>) => void,
   ): void {
     if (typeof nameOrFunction === "function") {
       testType.describe(() => {
@@ -474,24 +722,77 @@ const makeLayer = <T extends object, W extends object, R, E>(
  * );
  * ```
  *
+ * Fixtures can also be provided to the Effect tests as services, by mapping their
+ * names to a `Context.Tag` or a {@link FixtureService}. The tests then require the
+ * tags instead of reading the fixtures from their arguments. Passing services for a
+ * `TestType` that already has Effect methods, such as `test` of `@playwright/test`,
+ * returns a new `TestType` that provides the services of both calls:
+ *
+ * @example
+ * ```ts
+ * import { test as base } from "@playwright/test";
+ * import { Context, Effect } from "effect";
+ * import { PlaywrightAPIRequest } from "effect-playwright";
+ * import { expect, fixtureService, makeMethods } from "effect-playwright/test";
+ *
+ * class BaseUrl extends Context.Tag("BaseUrl")<BaseUrl, string | undefined>() {}
+ *
+ * const test = makeMethods(base, {
+ *   baseURL: BaseUrl,
+ *   request: fixtureService(PlaywrightAPIRequest, PlaywrightAPIRequest.make),
+ * });
+ *
+ * test.effect("calls the API", () =>
+ *   Effect.gen(function* () {
+ *     const request = yield* PlaywrightAPIRequest;
+ *     const response = yield* request.get(`${yield* BaseUrl}/health`);
+ *     expect(response.ok()).toBe(true);
+ *   }),
+ * );
+ * ```
+ *
  * @see https://playwright.dev/docs/test-fixtures
  * @since 0.6.0
  */
 export const makeMethods: <
   T extends Pick<PlaywrightTestArgs, "context" | "page">,
   W extends Pick<PlaywrightWorkerArgs, "browser">,
+  const M extends FixtureServices<T & W, M> = Record<never, never>,
+  S0 = never,
 >(
-  testType: TestType<T, W>,
-) => PlaywrightTestMethods<T, W> = <
+  testType: AugmentableTestType<T, W, S0>,
+  services?: M,
+) => PlaywrightTestMethods<
+  T & EffectTestOptions,
+  W,
+  S0 | FixtureServicesContext<M>
+> = <
   T extends Pick<PlaywrightTestArgs, "context" | "page">,
   W extends Pick<PlaywrightWorkerArgs, "browser">,
+  const M extends FixtureServices<T & W, M> = Record<never, never>,
+  S0 = never,
 >(
-  testType: TestType<T, W>,
-): PlaywrightTestMethods<T, W> => {
-  const cached = augmentedTesters.get(testType);
-  if (cached !== undefined) {
-    return testType as PlaywrightTestMethods<T, W>;
+  testType: AugmentableTestType<T, W, S0>,
+  services?: M,
+): PlaywrightTestMethods<
+  T & EffectTestOptions,
+  W,
+  S0 | FixtureServicesContext<M>
+> => {
+  type S = S0 | FixtureServicesContext<M>;
+  const ownEntries = Object.entries(services ?? {}) as Array<ServiceEntry>;
+  const augmented = augmentedTestTypes.get(testType);
+  if (augmented !== undefined) {
+    if (ownEntries.length === 0) {
+      return testType as PlaywrightTestMethods<T & EffectTestOptions, W, S>;
+    }
+    // the methods of a TestType are fixed, so the merged services go to a new one
+    return makeMethods(
+      testType.extend({}),
+      Object.fromEntries([...augmented, ...ownEntries]) as M,
+    );
   }
+  const serviceEntries = ownEntries as Array<[keyof (T & W), ServiceEntry[1]]>;
   if (Object.hasOwn(testType, "effect") || Object.hasOwn(testType, "layer")) {
     const method = Object.hasOwn(testType, "effect") ? "effect" : "layer";
     throw new Error(
@@ -499,54 +800,85 @@ export const makeMethods: <
     );
   }
 
+  const runtimeFixture = async (
+    fixtures: T & W & EffectTestOptions & InternalFixtures,
+    use: (runner: EffectRunner) => Promise<void>,
+    testInfo: TestInfo,
+  ) => {
+    const { browser, context, page, effectFailureArtifacts } = fixtures;
+    const runner: EffectRunner = {
+      abortController: new AbortController(),
+      closed: false,
+      context: Context.mergeAll(
+        Context.make(PlaywrightBrowser, PlaywrightBrowser.make(browser)),
+        Context.make(
+          PlaywrightBrowserContext,
+          PlaywrightBrowserContext.make(context),
+        ),
+        Context.make(PlaywrightPage, PlaywrightPage.make(page)),
+        ...serviceEntries.map(([name, service]) =>
+          Context.isTag(service)
+            ? Context.make(service, fixtures[name])
+            : Context.make(service.tag, service.make(fixtures[name])),
+        ),
+      ),
+      failureArtifacts: effectFailureArtifacts,
+      running: new Set(),
+    };
+    activeRunners.set(testInfo, runner);
+    try {
+      await use(runner);
+    } finally {
+      runner.closed = true;
+      if (testInfo.status === "timedOut" && runner.running.size > 0) {
+        // capture the page while the timed out test still runs and the page is open
+        await runPromise(attachArtifacts(runner, testInfo, undefined));
+      }
+      runner.abortController.abort();
+      await Promise.allSettled([...runner.running]);
+      activeRunners.delete(testInfo);
+    }
+  };
+  // Playwright has no API to declare the dependencies of a fixture: it parses the
+  // destructured first parameter from `fn.toString()` (`fixtureParameterNames` in
+  // playwright/lib/common), so the source is generated to list the fixture services.
+  const dependencies = [
+    "browser",
+    "context",
+    "page",
+    "effectFailureArtifacts",
+  ].concat(serviceEntries.map(([name]) => String(name)));
+  Object.defineProperty(runtimeFixture, "toString", {
+    value: () => `async ({ ${dependencies.join(", ")} }, use, testInfo) => {}`,
+  });
+
   const internalFixtures = {
+    effectFailureArtifacts: [{}, { option: true }],
     _effectPlaywrightRuntime: [
-      async (
-        { browser, context, page }: T & W & InternalFixtures,
-        use: (runner: EffectRunner) => Promise<void>,
-        testInfo: TestInfo,
-      ) => {
-        const runner: EffectRunner = {
-          abortController: new AbortController(),
-          closed: false,
-          context: Context.mergeAll(
-            Context.make(PlaywrightBrowser, PlaywrightBrowser.make(browser)),
-            Context.make(
-              PlaywrightBrowserContext,
-              PlaywrightBrowserContext.make(context),
-            ),
-            Context.make(PlaywrightPage, PlaywrightPage.make(page)),
-          ),
-          running: new Set(),
-        };
-        activeRunners.set(testInfo, runner);
-        try {
-          await use(runner);
-        } finally {
-          runner.closed = true;
-          runner.abortController.abort();
-          await Promise.allSettled([...runner.running]);
-          activeRunners.delete(testInfo);
-        }
-      },
+      runtimeFixture,
       { auto: true, box: true, timeout: 0 },
     ],
     // biome-ignore lint/complexity/noBannedTypes: Matches Playwright's empty worker fixture type.
-  } as unknown as Fixtures<InternalFixtures, {}, T, W>;
-  const effectTestType = testType.extend<InternalFixtures>(internalFixtures);
+  } as unknown as Fixtures<EffectTestOptions & InternalFixtures, {}, T, W>;
+  const effectTestType = testType.extend<EffectTestOptions & InternalFixtures>(
+    internalFixtures,
+  );
   const typedEffectTestType = effectTestType as TestType<
     T & W & InternalFixtures,
     object
   >;
-  const tester = makeTester<T & W, never>(typedEffectTestType, withoutLayer);
-  const layerMethod: LayerMethod<T, W> = (layer, options) =>
+  const tester = makeTester<T & W, never, S>(
+    typedEffectTestType,
+    withoutLayer<S>(),
+  );
+  const layerMethod: LayerMethod<T, W, S> = (layer, options) =>
     makeLayer(testType, typedEffectTestType, layer, options);
-  augmentedTesters.set(testType, tester as EffectTester<object>);
+  augmentedTestTypes.set(testType, ownEntries);
   Object.defineProperties(testType, {
     effect: { value: tester },
     layer: { value: layerMethod },
   });
-  return testType as PlaywrightTestMethods<T, W>;
+  return testType as PlaywrightTestMethods<T & EffectTestOptions, W, S>;
 };
 
 /**
@@ -598,8 +930,10 @@ export const test = makeMethods(playwrightTest);
  * @see https://playwright.dev/docs/api/class-test#test-before-all
  * @since 0.6.0
  */
-export const layer: LayerMethod<PlaywrightTestArgs, PlaywrightWorkerArgs> =
-  test.layer;
+export const layer: LayerMethod<
+  PlaywrightTestArgs & EffectTestOptions,
+  PlaywrightWorkerArgs
+> = test.layer;
 
 /**
  * Standalone alias for `test.effect`.
@@ -35,10 +35,10 @@ export class PlaywrightTouchscreen extends Context.Tag(
    * @since 0.3.0
    */
   static make(touchscreen: Touchscreen): PlaywrightTouchscreenService {
-    const use = useHelper(touchscreen);
+    const use = useHelper(touchscreen, { name: "touchscreen" });
 
     return PlaywrightTouchscreen.of({
-      tap: (x, y) => use((t) => t.tap(x, y)),
+      tap: (x, y) => use((t) => t.tap(x, y), { method: "tap" }),
     });
   }
 }
@@ -77,14 +77,22 @@ export class PlaywrightTracing extends Context.Tag(
    * @category constructor
    */
   static make(tracing: Tracing): PlaywrightTracingService {
-    const use = useHelper(tracing);
+    const use = useHelper(tracing, { name: "tracing" });
     return PlaywrightTracing.of({
-      start: (options) => use((t) => t.start(options)),
-      startChunk: (options) => use((t) => t.startChunk(options)),
-      stopChunk: (options) => use((t) => t.stopChunk(options)),
-      stop: (options) => use((t) => t.stop(options)),
-      startHar: (options) => use((t) => t.startHar(options).then(() => {})),
-      stopHar: use((t) => t.stopHar()),
+      start: (options) =>
+        use((t) => t.start(options), { method: "start", options }),
+      startChunk: (options) =>
+        use((t) => t.startChunk(options), { method: "startChunk", options }),
+      stopChunk: (options) =>
+        use((t) => t.stopChunk(options), { method: "stopChunk", options }),
+      stop: (options) =>
+        use((t) => t.stop(options), { method: "stop", options }),
+      startHar: (options) =>
+        use((t) => t.startHar(options).then(() => {}), {
+          method: "startHar",
+          options,
+        }),
+      stopHar: use((t) => t.stopHar(), { method: "stopHar" }),
     });
   }
 }
@@ -1,8 +1,556 @@
-import { Effect } from "effect";
-import { wrapError } from "./errors";
+import {
+  Cause,
+  Duration,
+  Effect,
+  Exit,
+  FiberSet,
+  Metric,
+  Option,
+  type ParseResult,
+  PubSub,
+  Runtime,
+  Schema,
+  type Scope,
+  Stream,
+} from "effect";
+import type {
+  BrowserContext,
+  JSHandle,
+  Page,
+  Route,
+  WebSocketRoute,
+} from "playwright-core";
+import type { EventHubOptions } from "./common";
+import { type PlaywrightError, wrapError } from "./errors";
+import {
+  contextsOpen,
+  operationDuration,
+  operationFailures,
+  pagesOpen,
+} from "./metrics";
+import { PlaywrightTelemetry } from "./telemetry";
+
+/** @internal */
+export interface UseHelperOptions<Wrap> {
+  /**
+   * Name of the wrapped Playwright object, used as the prefix of the recorded
+   * operation, e.g. `"page"` for `"page.goto"`.
+   */
+  readonly name: string;
+  /**
+   * Describes the wrapped object when an operation fails, e.g. the page URL or
+   * the locator description.
+   */
+  readonly target?: (api: Wrap) => string;
+  /**
+   * Whether the target is a URL (default) or a selector. Used for span attributes.
+   */
+  readonly targetKind?: "url" | "selector";
+}
+
+/**
+ * Describes the Playwright method called by a `use` function. Internal wrappers pass
+ * it, so that the operation can be recorded without intercepting the wrapped object.
+ *
+ * @internal
+ */
+export interface UseCall {
+  /** Name of the called method, e.g. `"goto"` for `"page.goto"`. */
+  readonly method: string;
+  /** Options passed to the method, used to record its `timeout`. */
+  readonly options?: unknown;
+}
+
+const describeTarget = <Wrap>(
+  api: Wrap,
+  target: ((api: Wrap) => string) | undefined,
+) => {
+  try {
+    return target?.(api);
+  } catch {
+    return undefined;
+  }
+};
+
+const capitalize = (name: string) =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+const timeoutOf = (options: unknown) =>
+  typeof options === "object" &&
+  options !== null &&
+  "timeout" in options &&
+  typeof options.timeout === "number"
+    ? options.timeout
+    : undefined;
+
+const statusOf = (result: unknown) => {
+  if (
+    typeof result === "object" &&
+    result !== null &&
+    "status" in result &&
+    typeof result.status === "function"
+  ) {
+    const status: unknown = result.status();
+    return typeof status === "number" ? status : undefined;
+  }
+  return undefined;
+};
+
+const recordMetrics = <A>(
+  operation: string,
+  exit: Exit.Exit<A, PlaywrightError>,
+  elapsedMillis: number,
+) => {
+  const failure = Exit.isFailure(exit)
+    ? Cause.failureOption(exit.cause)
+    : Option.none();
+
+  return Effect.zipRight(
+    Metric.update(
+      Metric.tagged(operationDuration, "operation", operation),
+      Duration.millis(elapsedMillis),
+    ),
+    Option.isSome(failure)
+      ? Metric.increment(
+          Metric.tagged(
+            Metric.tagged(operationFailures, "operation", operation),
+            "reason",
+            failure.value.reason,
+          ),
+        )
+      : Effect.void,
+  );
+};
 
 /** @internal */
 export const useHelper =
-  <Wrap>(api: Wrap) =>
-  <A>(userFunction: (api: Wrap) => Promise<A>) =>
-    Effect.tryPromise(() => userFunction(api)).pipe(Effect.mapError(wrapError));
+  <Wrap extends object>(api: Wrap, options: UseHelperOptions<Wrap>) =>
+  <A>(userFunction: (api: Wrap) => Promise<A>, call?: UseCall) => {
+    const operation = call ? `${options.name}.${call.method}` : options.name;
+
+    const effect = Effect.suspend(() => {
+      // wall-clock time, so that the elapsed time is meaningful under TestClock as well
+      const start = performance.now();
+
+      return Effect.tryPromise({
+        try: () => userFunction(api),
+        catch: (error) =>
+          wrapError(error, {
+            operation,
+            target: describeTarget(api, options.target),
+            elapsed: Duration.millis(performance.now() - start),
+          }),
+      }).pipe(
+        Effect.onExit((exit) =>
+          recordMetrics(operation, exit, performance.now() - start),
+        ),
+      );
+    });
+
+    return Effect.flatMap(PlaywrightTelemetry, (telemetry) =>
+      telemetry.enabled
+        ? withOperationSpan(effect, {
+            operation,
+            timeout: timeoutOf(call?.options),
+            target: () => describeTarget(api, options.target),
+            targetKind: options.targetKind ?? "url",
+          })
+        : effect,
+    );
+  };
+
+const withOperationSpan = <A>(
+  effect: Effect.Effect<A, PlaywrightError>,
+  options: {
+    readonly operation: string;
+    readonly timeout: number | undefined;
+    readonly target: () => string | undefined;
+    readonly targetKind: "url" | "selector";
+  },
+) => {
+  const [name, ...rest] = options.operation.split(".");
+  const spanName = [capitalize(name), ...rest].join(".");
+
+  return effect.pipe(
+    Effect.onExit((exit) => {
+      const target = options.target();
+      const status = Exit.isSuccess(exit) ? statusOf(exit.value) : undefined;
+      const error = Exit.isFailure(exit)
+        ? Cause.failureOption(exit.cause)
+        : Option.none();
+
+      return Effect.annotateCurrentSpan({
+        ...(target !== undefined && {
+          [`playwright.${options.targetKind}`]: target,
+        }),
+        ...(status !== undefined && { "playwright.status": status }),
+        ...(Option.isSome(error) && {
+          "playwright.error.reason": error.value.reason,
+        }),
+      });
+    }),
+    Effect.withSpan(spanName, {
+      kind: "client",
+      attributes: {
+        "playwright.operation": options.operation,
+        ...(options.timeout !== undefined && {
+          "playwright.timeout": options.timeout,
+        }),
+      },
+    }),
+  );
+};
+
+/**
+ * Runs a Playwright waiter (e.g. `page.waitForEvent`) with an Effect based predicate.
+ *
+ * The predicate runs with the runtime of the calling fiber. Its failures are
+ * propagated unchanged, and interrupting the returned effect aborts the waiter.
+ *
+ * @internal
+ */
+export const waitForWithPredicate = <Raw, Mapped, E, R>(options: {
+  readonly map: (raw: Raw) => Mapped;
+  readonly predicate:
+    | ((event: Mapped) => Effect.Effect<boolean, E, R>)
+    | undefined;
+  readonly wait: (
+    predicate: ((raw: Raw) => Promise<boolean>) | undefined,
+    signal: AbortSignal,
+  ) => Effect.Effect<Raw, PlaywrightError>;
+}): Effect.Effect<Mapped, PlaywrightError | E, R> =>
+  Effect.flatMap(Effect.runtime<R>(), (runtime) => {
+    const controller = new AbortController();
+    const userPredicate = options.predicate;
+    let failure: Cause.Cause<E> | undefined;
+
+    const predicate =
+      userPredicate &&
+      (async (raw: Raw) => {
+        const exit = await Runtime.runPromiseExit(runtime)(
+          userPredicate(options.map(raw)),
+        );
+        if (Exit.isSuccess(exit)) return exit.value;
+        failure = exit.cause;
+        throw Cause.squash(exit.cause);
+      });
+
+    return options.wait(predicate, controller.signal).pipe(
+      Effect.catchAll(
+        (error): Effect.Effect<never, PlaywrightError | E> =>
+          failure ? Effect.failCause(failure) : Effect.fail(error),
+      ),
+      Effect.map(options.map),
+      Effect.onInterrupt(() => Effect.sync(() => controller.abort())),
+    );
+  });
+
+/**
+ * Attaches a listener right away and shares its events with every run of the returned
+ * stream, as described in {@link EventHubOptions}.
+ *
+ * @internal
+ */
+export const makeEventHub = <A>(
+  listen: (onEvent: (value: A) => void, onEnd: () => void) => () => void,
+  options: EventHubOptions | undefined,
+): Effect.Effect<Stream.Stream<A>, never, Scope.Scope> =>
+  Effect.gen(function* () {
+    const strategy = options?.strategy ?? "unbounded";
+    const capacity = options?.capacity ?? 1024;
+    // the hub itself never drops events, so that the `None` marking the end of the
+    // events always reaches the subscribers and is replayed as well
+    const hub = yield* Effect.acquireRelease(
+      PubSub.unbounded<Option.Option<A>>({
+        replay: options?.replay ?? capacity,
+      }),
+      PubSub.shutdown,
+    );
+    yield* Effect.acquireRelease(
+      Effect.sync(() =>
+        listen(
+          (value) => {
+            hub.unsafeOffer(Option.some(value));
+          },
+          () => {
+            hub.unsafeOffer(Option.none());
+          },
+        ),
+      ),
+      (unlisten) => Effect.sync(unlisten),
+    );
+    const events = Stream.fromPubSub(hub).pipe(
+      Stream.takeWhile(Option.isSome),
+      Stream.map((event) => event.value),
+    );
+    // slow subscribers drop events in their own buffer, which still ends the stream
+    return strategy === "unbounded"
+      ? events
+      : Stream.buffer(events, { capacity, strategy });
+  });
+
+/**
+ * Decodes a value returned by Playwright with the given schema, and maps parse
+ * failures to the error of the calling operation.
+ *
+ * @internal
+ */
+export const decodeWith =
+  <A, I, R, E>(
+    schema: Schema.Schema<A, I, R>,
+    onFailure: (cause: ParseResult.ParseError) => E,
+  ) =>
+  (value: unknown) =>
+    Schema.decodeUnknown(schema)(value).pipe(Effect.mapError(onFailure));
+
+/**
+ * Returns the JSON value of a handle returned by a Playwright method and disposes it.
+ *
+ * @internal
+ */
+export const jsonValueAndDispose = async <R>(handle: JSHandle<R>) => {
+  try {
+    return await handle.jsonValue();
+  } finally {
+    // dispose fails once the page is closed, which must not replace the value
+    handle.dispose().catch(() => {});
+  }
+};
+
+const isWrappedHandle = (value: object): value is { _raw: JSHandle } =>
+  "_raw" in value &&
+  typeof value._raw === "object" &&
+  value._raw !== null &&
+  "asElement" in value._raw &&
+  typeof value._raw.asElement === "function";
+
+/**
+ * Disposes the given handles. Disposing can fail if the page or context is already
+ * closed, in which case the handles are gone anyway.
+ *
+ * @internal
+ */
+export const disposeAll = (handles: Iterable<JSHandle>) =>
+  Effect.promise(() =>
+    Promise.allSettled(Array.from(handles, (handle) => handle.dispose())),
+  );
+
+/**
+ * Replaces wrapped handles in an `evaluate` argument with the Playwright handles they
+ * wrap, so that Playwright can pass them to the page. Arrays and plain objects are
+ * traversed, other values are passed as they are.
+ *
+ * @internal
+ */
+export const unwrapHandles = <Arg>(arg: Arg): Arg => {
+  if (typeof arg !== "object" || arg === null) {
+    return arg;
+  }
+  if (isWrappedHandle(arg)) {
+    return arg._raw as Arg;
+  }
+  if (Array.isArray(arg)) {
+    return arg.map(unwrapHandles) as Arg;
+  }
+  const prototype = Object.getPrototypeOf(arg);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return arg;
+  }
+  return Object.fromEntries(
+    Object.entries(arg).map(([key, value]) => [key, unwrapHandles(value)]),
+  ) as Arg;
+};
+
+const escapedGlobCharacters = new Set("$^+.*()|\\?{}[]");
+
+/**
+ * Converts a Playwright URL glob to a regular expression like Playwright does: `*`
+ * matches any characters except `/`, `**` matches any characters, and `{a,b}` matches
+ * any of the alternatives. Throws for unmatched or nested groups, as Playwright does.
+ */
+const globToRegExp = (glob: string) => {
+  let pattern = "^";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "\\" && i + 1 < glob.length) {
+      const escaped = glob[++i];
+      pattern += escapedGlobCharacters.has(escaped) ? `\\${escaped}` : escaped;
+    } else if (char === "*") {
+      const before = glob[i - 1];
+      let stars = 1;
+      while (glob[i + 1] === "*") {
+        stars++;
+        i++;
+      }
+      if (stars === 1) {
+        pattern += "([^/]*)";
+      } else if (glob[i + 1] === "/") {
+        pattern += before === "/" ? "((.+/)|)" : "(.*/)";
+        i++;
+      } else {
+        pattern += "(.*)";
+      }
+    } else if (char === "{") {
+      if (inGroup) {
+        throw new Error(
+          `Invalid glob pattern ${JSON.stringify(glob)}: nested '{' is not supported`,
+        );
+      }
+      inGroup = true;
+      pattern += "(";
+    } else if (char === "}") {
+      if (!inGroup) {
+        throw new Error(
+          `Invalid glob pattern ${JSON.stringify(glob)}: unmatched '}'`,
+        );
+      }
+      inGroup = false;
+      pattern += ")";
+    } else if (char === ",") {
+      pattern += inGroup ? "|" : "\\,";
+    } else {
+      pattern += escapedGlobCharacters.has(char) ? `\\${char}` : char;
+    }
+  }
+  if (inGroup) {
+    throw new Error(
+      `Invalid glob pattern ${JSON.stringify(glob)}: unmatched '{'`,
+    );
+  }
+  return new RegExp(`${pattern}$`);
+};
+
+const normalizeUrl = (url: string) => {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Creates a predicate that matches the URL of a request or response like Playwright's
+ * `page.waitForRequest` does, for waits that Playwright only offers with a predicate
+ * (e.g. `browserContext.waitForEvent("request")`). A string is a glob pattern that must
+ * match the whole URL, a regular expression is tested against the URL.
+ *
+ * Fails with a {@link PlaywrightError} if the glob pattern is invalid.
+ *
+ * @internal
+ */
+export const matchesUrl = (
+  url: string | RegExp,
+  operation: string,
+): Effect.Effect<(event: { url(): string }) => boolean, PlaywrightError> =>
+  Effect.try({
+    try: () => {
+      if (url === "") return () => true;
+      const regExp =
+        typeof url === "string"
+          ? globToRegExp(/[*{]/.test(url) ? url : normalizeUrl(url))
+          : url;
+      return (event: { url(): string }) => {
+        regExp.lastIndex = 0;
+        return regExp.test(event.url());
+      };
+    },
+    catch: (error) => wrapError(error, { operation }),
+  });
+
+/**
+ * Creates a Playwright route callback that runs an Effect handler with the given
+ * runtime. Failures of the handler are logged and the request falls back to the next
+ * route handler, so that it does not hang.
+ *
+ * @internal
+ */
+export const routeHandler =
+  <A, E, R>(
+    runtime: Runtime.Runtime<R>,
+    handler: (route: Route) => Effect.Effect<A, E, R>,
+  ) =>
+  (route: Route) =>
+    Runtime.runPromise(runtime)(
+      handler(route).pipe(
+        Effect.asVoid,
+        Effect.catchAllCause((cause) =>
+          Effect.logError("Route handler failed", cause).pipe(
+            // fails if the handler already handled the route
+            Effect.zipRight(Effect.tryPromise(() => route.fallback())),
+            Effect.ignore,
+          ),
+        ),
+      ),
+    );
+
+/**
+ * Creates a Playwright WebSocket route callback that forks an Effect handler for every
+ * routed WebSocket. Failures of the handler are logged, and running handlers are
+ * interrupted when the scope closes.
+ *
+ * @internal
+ */
+export const webSocketRouteHandler = <A, E, R>(
+  handler: (route: WebSocketRoute) => Effect.Effect<A, E, R>,
+): Effect.Effect<(route: WebSocketRoute) => void, never, R | Scope.Scope> =>
+  Effect.gen(function* () {
+    const run = yield* FiberSet.makeRuntime<R>();
+    // Playwright cannot remove WebSocket routes, so once the scope is closed
+    // new connections are passed through to the server instead.
+    let active = true;
+    yield* Effect.addFinalizer(() =>
+      Effect.sync(() => {
+        active = false;
+      }),
+    );
+    return (route: WebSocketRoute) => {
+      if (!active) {
+        route.connectToServer();
+        return;
+      }
+      run(handler(route).pipe(Effect.catchAllCause(Effect.logError)));
+    };
+  });
+
+const trackedPages = new WeakSet<Page>();
+const trackedContexts = new WeakSet<BrowserContext>();
+
+/**
+ * Counts the page in `pagesOpen` until it is closed. The gauge is updated with the
+ * runtime of the calling fiber, so that metric tags of the caller apply.
+ *
+ * @internal
+ */
+export const trackPage = (page: Page): Effect.Effect<void> =>
+  Effect.flatMap(Effect.runtime<never>(), (runtime) => {
+    if (trackedPages.has(page) || page.isClosed()) return Effect.void;
+    trackedPages.add(page);
+    page.once("close", () =>
+      Runtime.runSync(runtime)(Metric.incrementBy(pagesOpen, -1)),
+    );
+    return Metric.increment(pagesOpen);
+  });
+
+/**
+ * Counts the context in `contextsOpen` until it is closed, and all of
+ * its pages in `pagesOpen`.
+ *
+ * @internal
+ */
+export const trackContext = (context: BrowserContext): Effect.Effect<void> =>
+  Effect.flatMap(Effect.runtime<never>(), (runtime) => {
+    if (trackedContexts.has(context)) return Effect.void;
+    trackedContexts.add(context);
+    const runSync = Runtime.runSync(runtime);
+    const onPage = (page: Page) => runSync(trackPage(page));
+    context.on("page", onPage);
+    context.once("close", () => {
+      context.off("page", onPage);
+      runSync(Metric.incrementBy(contextsOpen, -1));
+    });
+    return Effect.zipRight(
+      Metric.increment(contextsOpen),
+      Effect.all(context.pages().map(trackPage), { discard: true }),
+    );
+  });
@@ -0,0 +1,87 @@
+import { afterAll, assert, describe } from "@effect/vitest";
+import { Context, Effect, Layer } from "effect";
+import {
+  chromium,
+  PlaywrightBrowser,
+  PlaywrightBrowserContext,
+  PlaywrightPage,
+} from "effect-playwright";
+import { layer } from "effect-playwright/vitest";
+
+class Greeting extends Context.Tag("Greeting")<Greeting, string>() {}
+
+layer(chromium)("effect-playwright/vitest", (it) => {
+  it.browser("injects the Playwright services", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const context = yield* PlaywrightBrowserContext;
+      const page = yield* PlaywrightPage;
+
+      assert.isTrue(browser.isConnected());
+      assert.lengthOf(context.pages(), 1);
+
+      yield* page.goto("data:text/html,<title>Vitest</title>");
+      assert.strictEqual(yield* page.title, "Vitest");
+    }),
+  );
+
+  it.browser("creates a fresh context for every test", () =>
+    Effect.gen(function* () {
+      const context = yield* PlaywrightBrowserContext;
+      const page = yield* PlaywrightPage;
+
+      assert.lengthOf(context.pages(), 1);
+      assert.strictEqual(page.url(), "about:blank");
+    }),
+  );
+
+  it.browser.each([1, 2])("runs each case with a fresh page", (n) =>
+    Effect.gen(function* () {
+      const page = yield* PlaywrightPage;
+
+      assert.strictEqual(page.url(), "about:blank");
+      yield* page.goto(`data:text/html,<title>${n}</title>`);
+      assert.strictEqual(yield* page.title, String(n));
+    }),
+  );
+
+  describe("timeouts", () => {
+    let pageOpenInFinalizer: boolean | undefined;
+
+    afterAll(() => {
+      assert.isTrue(pageOpenInFinalizer);
+    });
+
+    it.browser.fails(
+      "interrupts a timed out test before closing its context",
+      () =>
+        Effect.gen(function* () {
+          const page = yield* PlaywrightPage;
+          yield* Effect.addFinalizer(() =>
+            Effect.sync(() => {
+              pageOpenInFinalizer = !page.isClosed();
+            }),
+          );
+          return yield* Effect.never;
+        }),
+      1000,
+    );
+  });
+
+  it.effect("shares the browser with it.effect", () =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      assert.isTrue(browser.isConnected());
+    }),
+  );
+
+  it.layer(Layer.succeed(Greeting, "hello"))("nested layers", (it) => {
+    it.browser("provides the nested services", () =>
+      Effect.gen(function* () {
+        const page = yield* PlaywrightPage;
+        assert.strictEqual(yield* Greeting, "hello");
+        assert.strictEqual(page.url(), "about:blank");
+      }),
+    );
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Vitest integration for Effect programs, built on top of `@effect/vitest`.
+ *
+ * A browser is launched once per `layer` block and shared by its tests. Every
+ * `it.browser` test runs with a fresh `PlaywrightBrowserContext` and
+ * `PlaywrightPage`, which are closed when the test ends. Test timeouts interrupt
+ * the running Effect, so that its finalizers run before the context is closed.
+ *
+ * @since 0.7.0
+ * @packageDocumentation
+ */
+
+import { layer as effectLayer, type Vitest } from "@effect/vitest";
+import { type Duration, Effect, Layer, type Scope } from "effect";
+import type { BrowserType } from "playwright-core";
+import {
+  type LaunchOptions,
+  type NewContextOptions,
+  PlaywrightBrowser,
+} from "./browser";
+import { PlaywrightBrowserContext } from "./browser-context";
+import { PlaywrightPage } from "./page";
+import { Playwright } from "./playwright";
+
+/**
+ * Services available to an `it.browser` test.
+ *
+ * @since 0.7.0
+ */
+export type BrowserTestEnvironment =
+  | PlaywrightBrowser
+  | PlaywrightBrowserContext
+  | PlaywrightPage
+  | Scope.Scope;
+
+/**
+ * Registers Effect tests that run with a fresh browser context and page.
+ *
+ * @since 0.7.0
+ */
+export interface BrowserTester<R = never>
+  extends Vitest.Test<BrowserTestEnvironment | R> {
+  readonly skip: Vitest.Test<BrowserTestEnvironment | R>;
+  readonly skipIf: (
+    condition: unknown,
+  ) => Vitest.Test<BrowserTestEnvironment | R>;
+  readonly runIf: (
+    condition: unknown,
+  ) => Vitest.Test<BrowserTestEnvironment | R>;
+  readonly only: Vitest.Test<BrowserTestEnvironment | R>;
+  readonly fails: Vitest.Test<BrowserTestEnvironment | R>;
+  readonly each: Vitest.Tester<BrowserTestEnvironment | R>["each"];
+}
+
+/**
+ * Options for {@link layer}.
+ *
+ * @since 0.7.0
+ */
+export interface BrowserLayerOptions {
+  /** Options used to launch the shared browser. */
+  readonly launchOptions?: LaunchOptions;
+  /** Options used to create the browser context of every `it.browser` test. */
+  readonly contextOptions?: NewContextOptions;
+  readonly memoMap?: Layer.MemoMap;
+  /** Timeout for launching and closing the browser. */
+  readonly timeout?: Duration.DurationInput;
+}
+
+interface NestedLayerOptions {
+  readonly timeout?: Duration.DurationInput;
+}
+
+interface LayerRegistration<R> {
+  (f: (it: BrowserMethods<R>) => void): void;
+  (name: string, f: (it: BrowserMethods<R>) => void): void;
+}
+
+/**
+ * The `@effect/vitest` test methods of a {@link layer} block, with `it.browser` for
+ * tests that need a page.
+ *
+ * `it.effect` and `it.scoped` have access to the shared `PlaywrightBrowser`. Unlike
+ * plain `@effect/vitest` layers, tests run with the live clock, because the browser
+ * does not observe the `TestClock`.
+ *
+ * @since 0.7.0
+ */
+export interface BrowserMethods<R = never>
+  extends Omit<Vitest.MethodsNonLive<PlaywrightBrowser | R, true>, "layer"> {
+  readonly browser: BrowserTester<R>;
+  readonly layer: <R2, E>(
+    layer: Layer.Layer<R2, E, PlaywrightBrowser | R>,
+    options?: NestedLayerOptions,
+  ) => LayerRegistration<R | R2>;
+}
+
+const withPage =
+  (contextOptions: NewContextOptions | undefined) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+    Effect.gen(function* () {
+      const browser = yield* PlaywrightBrowser;
+      const context = yield* browser.newContext(contextOptions);
+      const page = yield* context.newPage;
+      return yield* effect.pipe(
+        Effect.provideService(PlaywrightBrowserContext, context),
+        Effect.provideService(PlaywrightPage, page),
+      );
+    });
+
+const makeTest =
+  <R>(
+    test: Vitest.Test<PlaywrightBrowser | Scope.Scope | R>,
+    contextOptions: NewContextOptions | undefined,
+  ): Vitest.Test<BrowserTestEnvironment | R> =>
+  (name, self, timeout) =>
+    test(name, (ctx) => withPage(contextOptions)(self(ctx)), timeout);
+
+const makeBrowserTester = <R>(
+  scoped: Vitest.Tester<PlaywrightBrowser | Scope.Scope | R>,
+  contextOptions: NewContextOptions | undefined,
+): BrowserTester<R> =>
+  Object.assign(makeTest(scoped, contextOptions), {
+    skip: makeTest(scoped.skip, contextOptions),
+    skipIf: (condition: unknown) =>
+      makeTest(scoped.skipIf(condition), contextOptions),
+    runIf: (condition: unknown) =>
+      makeTest(scoped.runIf(condition), contextOptions),
+    only: makeTest(scoped.only, contextOptions),
+    fails: makeTest(scoped.fails, contextOptions),
+    each:
+      <T>(cases: ReadonlyArray<T>) =>
+      <A, E>(
+        name: string,
+        self: Vitest.TestFunction<A, E, BrowserTestEnvironment | R, Array<T>>,
+        timeout?: Parameters<Vitest.Test<R>>[2],
+      ) =>
+        scoped.each(cases)(
+          name,
+          (...args) => withPage(contextOptions)(self(...args)),
+          timeout,
+        ),
+  });
+
+const makeLayer = <R, E>(
+  layer: Layer.Layer<PlaywrightBrowser | R, E>,
+  options: BrowserLayerOptions & { readonly memoMap: Layer.MemoMap },
+): LayerRegistration<R> => {
+  const makeMethods = (
+    it: Vitest.MethodsNonLive<PlaywrightBrowser | R, true>,
+  ): BrowserMethods<R> =>
+    Object.assign(it, {
+      browser: makeBrowserTester(it.scoped, options.contextOptions),
+      layer: <R2, E2>(
+        nested: Layer.Layer<R2, E2, PlaywrightBrowser | R>,
+        nestedOptions?: NestedLayerOptions,
+      ) =>
+        makeLayer<R | R2, E | E2>(Layer.provideMerge(nested, layer), {
+          ...options,
+          timeout: nestedOptions?.timeout,
+        }),
+    });
+
+  const registration = effectLayer(layer, {
+    memoMap: options.memoMap,
+    timeout: options.timeout,
+    excludeTestServices: true,
+  });
+
+  function register(f: (it: BrowserMethods<R>) => void): void;
+  function register(name: string, f: (it: BrowserMethods<R>) => void): void;
+  function register(
+    nameOrFunction: string | ((it: BrowserMethods<R>) => void),
+    possibleFunction?: (it: BrowserMethods<R>) => void,
+  ): void {
+    if (typeof nameOrFunction === "function") {
+      registration((it) => nameOrFunction(makeMethods(it)));
+      return;
+    }
+    if (possibleFunction === undefined) {
+      throw new TypeError("effect-playwright/vitest: missing layer test body");
+    }
+    registration(nameOrFunction, (it) => possibleFunction(makeMethods(it)));
+  }
+
+  return register;
+};
+
+/**
+ * Launches a browser that is shared by the tests of the block, and registers tests
+ * with `it.browser`, `it.effect` and `it.scoped`.
+ *
+ * The browser is launched before the tests in the block and closed after all of them
+ * finished. Every `it.browser` test gets its own `PlaywrightBrowserContext` and
+ * `PlaywrightPage`. Passing a name wraps the tests in a vitest `describe` block.
+ *
+ * @example
+ * ```ts
+ * import { assert } from "@effect/vitest";
+ * import { Effect } from "effect";
+ * import { chromium, PlaywrightPage } from "effect-playwright";
+ * import { layer } from "effect-playwright/vitest";
+ *
+ * layer(chromium)("checkout", (it) => {
+ *   it.browser("shows the cart", () =>
+ *     Effect.gen(function* () {
+ *       const page = yield* PlaywrightPage;
+ *       yield* page.goto("https://example.com/cart");
+ *       assert.strictEqual(yield* page.title, "Cart");
+ *     }),
+ *   );
+ * });
+ * ```
+ *
+ * @param browserType - The browser type to launch (e.g. `chromium`, `firefox`, `webkit`).
+ * @param options - Launch and context options.
+ * @since 0.7.0
+ */
+export const layer = (
+  browserType: BrowserType,
+  options?: BrowserLayerOptions,
+): LayerRegistration<never> =>
+  makeLayer(
+    Layer.scoped(
+      PlaywrightBrowser,
+      Effect.flatMap(Playwright, (playwright) =>
+        playwright.launchScoped(browserType, options?.launchOptions),
+      ),
+    ).pipe(Layer.provide(Playwright.layer)),
+    {
+      ...options,
+      memoMap: options?.memoMap ?? Effect.runSync(Layer.makeMemoMap),
+    },
+  );
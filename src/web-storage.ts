@@ -99,17 +99,19 @@ export class PlaywrightWebStorage extends Context.Tag(
    * @since 0.5.1
    */
   static make(webStorage: WebStorage): PlaywrightWebStorageService {
-    const use = useHelper(webStorage);
+    const use = useHelper(webStorage, { name: "webStorage" });
 
     return PlaywrightWebStorage.of({
-      clear: use((storage) => storage.clear()),
+      clear: use((storage) => storage.clear(), { method: "clear" }),
       getItem: (name) =>
-        use((storage) => storage.getItem(name)).pipe(
+        use((storage) => storage.getItem(name), { method: "getItem" }).pipe(
           Effect.map(Option.fromNullable),
         ),
-      items: use((storage) => storage.items()),
-      removeItem: (name) => use((storage) => storage.removeItem(name)),
-      setItem: (name, value) => use((storage) => storage.setItem(name, value)),
+      items: use((storage) => storage.items(), { method: "items" }),
+      removeItem: (name) =>
+        use((storage) => storage.removeItem(name), { method: "removeItem" }),
+      setItem: (name, value) =>
+        use((storage) => storage.setItem(name, value), { method: "setItem" }),
     });
   }
 }
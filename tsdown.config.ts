@@ -1,7 +1,12 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-  entry: ["src/index.ts", "src/experimental/index.ts", "src/test.ts"],
+  entry: [
+    "src/index.ts",
+    "src/experimental/index.ts",
+    "src/test.ts",
+    "src/vitest.ts",
+  ],
   exports: true,
   dts: true,
   define: {